@@ -7,14 +7,161 @@ export interface FunctionNodeInfo extends ColumnAndLine {
     name: string;
 }
 
-export interface ContainerOutput extends FunctionNodeInfo {
+/**
+ * Where code ends and how many lines it spans.
+ */
+export interface SourceRange {
+    /**
+     * The column of the last character.
+     */
+    endColumn: number;
+    /**
+     * The line of the last character.
+     */
+    endLine: number;
+    /**
+     * The number of lines from the first line to the last line.
+     */
+    physicalLines: number;
+    /**
+     * The number of lines that have code on them, i.e. not blank and not only comments.
+     */
+    logicalLines: number;
+}
+
+/**
+ * The sort of code that a container is.
+ */
+export type ContainerKind = "accessor"
+    | "arrow"
+    | "class"
+    | "constructor"
+    | "function"
+    | "interface"
+    | "method"
+    | "namespace"
+    | "script"
+    | "static"
+    | "type";
+
+export interface ContainerOutput extends FunctionNodeInfo, SourceRange {
+    kind: ContainerKind;
+    /**
+     * The names of the container and the containers it is in,
+     * e.g. `Outer.Inner.method`, or `foo.<arrow@12:5>` for an anonymous function.
+     */
+    qualifiedName: string;
+    /**
+     * Identifies the container between runs, even when the code around it moves.
+     * It is made from the path of the file from the folder that contains the file or folder being analysed,
+     * the qualified name without positions, and the kind.
+     * Containers with the same name and kind are told apart by their order.
+     */
+    fingerprint: string;
+    maxDepth: MaxDepth;
+    /**
+     * The total score, including the scores of inner containers.
+     */
     score: number;
+    /**
+     * The score of the increments that are not inside any inner container.
+     */
+    selfScore: number;
     inner: ContainerOutput[];
+    increments?: Increment[];
+    /**
+     * The McCabe cyclomatic complexity, excluding the code in inner containers.
+     */
+    cyclomatic?: number;
+    halstead?: Halstead;
+    /**
+     * The names of the containers that this container recurses through.
+     */
+    recursionCycle?: string[];
+    /**
+     * Present when the container has been marked as having accepted complexity,
+     * using a `@ccts-ignore` JSDoc tag.
+     */
+    suppressed?: boolean;
+    /**
+     * The thresholds given in the options that this container goes above.
+     * Suppressed containers are not held to thresholds.
+     */
+    exceededThresholds?: ThresholdName[];
 }
 
-export interface FileOutput {
+export interface FileOutput extends SourceRange {
+    maxDepth: MaxDepth;
+    /**
+     * The total score, including the scores of containers.
+     */
     score: number;
+    /**
+     * The score of the increments that are not inside any container.
+     */
+    selfScore: number;
     inner: ContainerOutput[];
+    increments?: Increment[];
+    /**
+     * The McCabe cyclomatic complexity, excluding the code in inner containers.
+     */
+    cyclomatic?: number;
+    /**
+     * The thresholds given in the options that this file goes above.
+     */
+    exceededThresholds?: ThresholdName[];
+    /**
+     * The syntax errors in the file, which make its score unreliable.
+     */
+    syntaxDiagnostics?: SyntaxDiagnostic[];
+}
+
+/**
+ * A syntax error found by the TypeScript parser.
+ */
+export interface SyntaxDiagnostic extends ColumnAndLine {
+    /**
+     * The TypeScript diagnostic code, e.g. 1005 for "';' expected."
+     */
+    code: number;
+    message: string;
+}
+
+/**
+ * The deepest level of nesting reached, including inside inner containers,
+ * and where it is first reached.
+ */
+export interface MaxDepth extends ColumnAndLine {
+    depth: number;
+}
+
+/**
+ * The metrics that can be given a threshold.
+ */
+export type ThresholdName = "maxDepth" | "score";
+
+/**
+ * A contribution to the score of a container
+ * that is not part of the score of any container inside it.
+ */
+export interface Increment extends ColumnAndLine {
+    /**
+     * The name of the TypeScript syntax kind that caused the increment.
+     */
+    syntaxKind: string;
+    inherent: number;
+    nesting: number;
+    reason: string;
+}
+
+/**
+ * Measurements of code based on the number of operators and operands in it,
+ * including the code of inner containers.
+ */
+export interface Halstead {
+    volume: number;
+    difficulty: number;
+    effort: number;
 }
 
 export type FolderOutput = {
@@ -23,6 +170,32 @@ export type FolderOutput = {
 
 export type ProgramOutput = FolderOutput;
 
+/**
+ * The output of a tolerant analysis.
+ * The errors are kept apart from the output of the entry,
+ * so that they can not clash with the name of the entry.
+ */
+export interface TolerantProgramOutput {
+    output: ProgramOutput;
+    errors: AnalysisError[];
+}
+
+/**
+ * Why a file or folder could not be analysed.
+ */
+export interface AnalysisError {
+    /**
+     * The path to the file or folder, including the path to the entry being analysed.
+     */
+    filePath: string;
+    message: string;
+    /**
+     * Where in the file the analysis failed, when it is known.
+     */
+    line?: number;
+    column?: number;
+}
+
 export interface ScoreAndInner {
     score: number;
     inner: ContainerOutput[];
@@ -1,2 +1,6 @@
 export * from '../shared/types'
 export * from "./cognitive-complexity/output";
+export * from "./cognitive-complexity/options";
+export * from "./cognitive-complexity/profiles";
+export * from "./cognitive-complexity/script-kinds";
+export { NestedFunctionDepth, nestedFunctionDepths, isNestedFunctionDepth } from "./cognitive-complexity/depth";
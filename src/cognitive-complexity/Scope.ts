@@ -1,4 +1,5 @@
-import ts from "typescript";
+import type * as ts from "typescript";
+import { TypeScript } from "./compiler";
 import { getIntroducedLocalName, getExpressionToAccessObjectMember } from "./node-naming";
 
 /**
@@ -23,8 +24,8 @@ export class Scope {
         return this.local.includes(name) || this.object.includes(name);
     }
 
-    maybeAdd(node: ts.Node, variableBeingDefined: string | undefined): Scope {
-        const { local, object } = this.scopeToAdd(node, variableBeingDefined);
+    maybeAdd(ts: TypeScript, node: ts.Node, variableBeingDefined: string | undefined): Scope {
+        const { local, object } = this.scopeToAdd(ts, node, variableBeingDefined);
 
         if (local.length !== 0 || object.length !== 0) {
             return new Scope([...this.local, ...local], [...this.object, ...object]);
@@ -33,11 +34,11 @@ export class Scope {
         return this;
     }
 
-    private scopeToAdd(node: ts.Node, variableBeingDefined: string | undefined): { local: string[], object: string[] } {
+    private scopeToAdd(ts: TypeScript, node: ts.Node, variableBeingDefined: string | undefined): { local: string[], object: string[] } {
         const local = [] as string[];
         const object = [] as string[];
 
-        const introducedLocal = getIntroducedLocalName(node);
+        const introducedLocal = getIntroducedLocalName(ts, node);
         if (introducedLocal !== undefined) {
             local.push(introducedLocal);
         }
@@ -53,7 +54,7 @@ export class Scope {
             }
         }
 
-        const maybeExpression = getExpressionToAccessObjectMember(node);
+        const maybeExpression = getExpressionToAccessObjectMember(ts, node);
         if (maybeExpression !== undefined) {
             object.push(maybeExpression);
 
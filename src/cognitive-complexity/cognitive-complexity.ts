@@ -1,79 +1,337 @@
-import * as ts from "typescript"
-import { FileOutput, ContainerOutput, ScoreAndInner } from "../../shared/types";
+import type * as ts from "typescript";
+import { ColumnAndLine, FileOutput, ContainerOutput, Halstead, Increment, MaxDepth, ScoreAndInner, SyntaxDiagnostic, ThresholdName } from "../../shared/types";
 import { countNotAtTheEnds } from "../util/util";
 import {
     chooseContainerName,
+    getAnonymousNames,
+    getCalleeName,
     getNameIfCalledNode,
-    getNameOfAssignment
+    getNameOfAssignment,
+    getQualifiedNames,
+    QualifiedNames
 } from "./node-naming";
-import { whereAreChildren } from "./depth";
+import { depthOfNestedFunctionBody, whereAreChildren } from "./depth";
 import {
     isContainer,
     getColumnAndLine,
+    getContainerKind,
     isSequenceOfDifferentBooleanOperations,
     isBreakOrContinueToLabel,
     isBinaryTypeOperator,
+    isClassStaticBlock,
+    isConditionalRendering,
+    isFunctionNode,
+    isPromiseCatch,
+    isRenderCallbackCall,
     passThroughNameBeingAssigned
 } from "./node-inspection";
 import { Scope } from "./Scope";
+import { createIncrement } from "./increment";
+import { Options } from "./options";
+import { getScoringProfile, ScoringProfile } from "./profiles";
+import { createSingleFileProgram, isRecursiveReference } from "./symbols";
+import { findRecursionCycles, RecursionCycles } from "./recursion-cycles";
+import { findSuppressedLines, hasIgnoreTag } from "./suppression";
+import { halsteadMetrics } from "./halstead";
+import { CodeLineTotals, countCodeLines, getSourceRange, getSourceRangeBetween } from "./lines";
+import { Fingerprinter } from "./fingerprint";
+import { getSyntaxDiagnostics } from "./diagnostics";
+import { ScriptBlock } from "./extractors";
+import { TypeScript } from "./compiler";
+import { getRegexPattern, measureRegex, regexScore } from "./regex";
 
-export function fileCost(file: ts.SourceFile): FileOutput {
-    return nodeCost(file, true);
+/**
+ * What is known about the analysis of a file, which is the same for every node in the file.
+ */
+interface FileContext {
+    /**
+     * The TypeScript that parsed the file.
+     */
+    ts: TypeScript;
+    options: Options;
+    profile: ScoringProfile;
+    /**
+     * Present when recursion is found by resolving symbols instead of comparing names.
+     */
+    checker: ts.TypeChecker | undefined;
+    /**
+     * Empty unless cycles of recursion between containers are being found.
+     */
+    recursionCycles: RecursionCycles;
+    /**
+     * The lines whose increments have been removed by comments.
+     */
+    suppressedLines: Set<number>;
+    codeLineTotals: CodeLineTotals;
+    fingerprinter: Fingerprinter;
+}
+
+/**
+ * A node and the depth it is at.
+ */
+interface Deepest {
+    depth: number;
+    node: ts.Node;
+}
+
+interface ChildrenCost extends ScoreAndInner {
+    /**
+     * The increments caused by the nodes and their descendants,
+     * excluding those inside containers.
+     */
+    increments: Increment[];
+    /**
+     * The number of decision points in the nodes and their descendants,
+     * excluding those inside containers.
+     */
+    decisions: number;
+    /**
+     * The first of the most deeply nested nodes and their descendants,
+     * including those inside containers.
+     * Undefined when there are no nodes.
+     */
+    deepest: Deepest | undefined;
+}
+
+interface NodeCost extends ChildrenCost {
+    deepest: Deepest;
+}
+
+/**
+ * @param ts The TypeScript that parsed the file
+ * @param scriptBlocks The blocks of the file that each of its scripts came from,
+ * when each block should be scored as a container
+ */
+export function fileCost(ts: TypeScript, file: ts.SourceFile, options: Options, scriptBlocks?: ScriptBlock[]): FileOutput {
+    const needsSyntaxDiagnostics = options.syntaxDiagnostics || options.skipSyntaxErrors;
+
+    // making a program takes about as long as scoring the file,
+    // so it is only made when needed, and made once
+    const program = needsSyntaxDiagnostics || options.typeChecker
+        ? createSingleFileProgram(ts, file)
+        : undefined;
+
+    const syntaxDiagnostics = program !== undefined && needsSyntaxDiagnostics
+        ? getSyntaxDiagnostics(ts, file, program)
+        : [];
+
+    if (options.skipSyntaxErrors && syntaxDiagnostics.length > 0) {
+        return unscoredFileOutput(ts, file, syntaxDiagnostics);
+    }
+
+    const namedProfile = getScoringProfile(options.profile);
+    const profile: ScoringProfile = {
+        ...namedProfile,
+        jsx: namedProfile.jsx || options.jsx,
+        promiseChains: namedProfile.promiseChains || options.promiseChains,
+        regex: namedProfile.regex || options.regex,
+    };
+    const checker = program !== undefined && options.typeChecker
+        ? program.getTypeChecker()
+        : undefined;
+
+    const context: FileContext = {
+        ts,
+        options,
+        profile,
+        checker,
+        recursionCycles: options.mutualRecursion
+            ? findRecursionCycles(ts, file, profile, checker)
+            : new Map(),
+        suppressedLines: findSuppressedLines(ts, file),
+        codeLineTotals: countCodeLines(ts, file),
+        fingerprinter: new Fingerprinter(file.fileName),
+    };
+
+    const { score, inner, increments, decisions, deepest } = scriptBlocks !== undefined
+        ? scriptBlocksCost(file, scriptBlocks, context)
+        : nodeCost(file, true, context);
+    const maxDepth = deepest !== undefined
+        ? maxDepthOutput(deepest)
+        : maxDepthOutput({ depth: 0, node: file });
+
+    return {
+        score,
+        selfScore: selfScore(increments),
+        inner,
+        ...getSourceRange(ts, file, context.codeLineTotals),
+        maxDepth,
+        ...incrementsOutput(increments, options),
+        ...cyclomaticOutput(decisions, options),
+        ...thresholdsOutput(score, maxDepth, options),
+        ...syntaxDiagnosticsOutput(syntaxDiagnostics),
+    };
+}
+
+/**
+ * The output of a file that is not scored, because it has syntax errors.
+ */
+function unscoredFileOutput(ts: TypeScript, file: ts.SourceFile, syntaxDiagnostics: SyntaxDiagnostic[]): FileOutput {
+    return {
+        score: 0,
+        selfScore: 0,
+        inner: [],
+        ...getSourceRange(ts, file, countCodeLines(ts, file)),
+        maxDepth: maxDepthOutput({ depth: 0, node: file }),
+        syntaxDiagnostics,
+    };
+}
+
+/**
+ * Each block is a container of the top level statements in it.
+ * The blocks are parsed as one file, because they can refer to each other.
+ */
+function scriptBlocksCost(file: ts.SourceFile, blocks: ScriptBlock[], context: FileContext): ChildrenCost {
+    const { ts } = context;
+
+    let score = 0;
+    const inner = [] as ContainerOutput[];
+    let deepest: Deepest | undefined = undefined;
+
+    for (const block of blocks) {
+        // a block is measured from its first to its last non-whitespace character
+        const text = file.text.slice(block.start, block.end);
+        const start = block.start + text.length - text.trimStart().length;
+        const end = Math.max(start, block.start + text.trimEnd().length);
+
+        const lineAndCol = file.getLineAndCharacterOfPosition(start);
+        const location: ColumnAndLine = {
+            column: lineAndCol.character + 1,
+            line: lineAndCol.line + 1,
+        };
+
+        const statements = file.statements
+            .filter(statement => start <= statement.getStart() && statement.getStart() < end);
+        const names = getAnonymousNames("script", location);
+
+        const blockCost = aggregateCostOfChildren(statements, 0, true, context, new Scope([], []), undefined, names);
+
+        score += blockCost.score;
+        deepest = deeperOf(deepest, blockCost.deepest);
+
+        const maxDepth = blockCost.deepest !== undefined
+            ? maxDepthOutput(blockCost.deepest)
+            : { depth: 0, ...location };
+
+        inner.push({
+            ...location,
+            ...getSourceRangeBetween(file, start, end, context.codeLineTotals),
+            score: blockCost.score,
+            selfScore: selfScore(blockCost.increments),
+            inner: blockCost.inner,
+            name: "",
+            kind: "script",
+            qualifiedName: names.qualifiedName,
+            fingerprint: context.fingerprinter.fingerprint(names.stableName, "script"),
+            maxDepth,
+            ...incrementsOutput(blockCost.increments, context.options),
+            ...cyclomaticOutput(blockCost.decisions, context.options),
+            ...halsteadOutput(ts, statements, context.options),
+            ...thresholdsOutput(blockCost.score, maxDepth, context.options),
+        });
+    }
+
+    return {
+        score,
+        inner,
+        // every increment and decision is inside a block
+        increments: [],
+        decisions: 0,
+        deepest,
+    };
 }
 
 function aggregateCostOfChildren(
-    children: ts.Node[],
+    children: readonly ts.Node[],
     childDepth: number,
     topLevel: boolean,
+    context: FileContext,
     scope: Scope,
     variableBeingDefined: string | undefined,
-): ScoreAndInner {
+    containerNames: QualifiedNames | undefined,
+): ChildrenCost {
+    const { ts } = context;
+
     let score = 0;
 
     // The inner containers of a node is defined as the concat of:
     // * all child nodes that are functions/namespaces/classes
     // * all containers declared directly under a non-container child node
     const inner = [] as ContainerOutput[];
+    // the increments and decisions not inside any of the inner containers
+    const increments = [] as Increment[];
+    let decisions = 0;
+    let deepest: Deepest | undefined = undefined;
 
     for (const child of children) {
-        const childCost = nodeCost(child, topLevel, childDepth, scope, variableBeingDefined);
+        // a function/class/namespace/type is part of the inner scope we want to output
+        const name = chooseContainerName(ts, child, variableBeingDefined);
+        const kind = getContainerKind(ts, child);
+        const identity = name !== undefined && kind !== undefined
+            ? { name, kind, names: getQualifiedNames(ts, child, name, kind, containerNames) }
+            : undefined;
+
+        const childCost = nodeCost(child, topLevel, context, childDepth, scope, variableBeingDefined, identity?.names ?? containerNames);
 
         score += childCost.score;
+        deepest = deeperOf(deepest, childCost.deepest);
 
-        // a function/class/namespace/type is part of the inner scope we want to output
-        const name = chooseContainerName(child, variableBeingDefined);
+        if (identity !== undefined) {
+            const maxDepth = maxDepthOutput(childCost.deepest);
+            const suppressed = hasIgnoreTag(ts, child);
 
-        if (name !== undefined) {
             inner.push({
                 ...getColumnAndLine(child),
-                ...childCost,
-                name,
+                ...getSourceRange(ts, child, context.codeLineTotals),
+                score: childCost.score,
+                selfScore: selfScore(childCost.increments),
+                inner: childCost.inner,
+                name: identity.name,
+                kind: identity.kind,
+                qualifiedName: identity.names.qualifiedName,
+                fingerprint: context.fingerprinter.fingerprint(identity.names.stableName, identity.kind),
+                maxDepth,
+                ...incrementsOutput(childCost.increments, context.options),
+                ...cyclomaticOutput(childCost.decisions, context.options),
+                ...halsteadOutput(ts, [child], context.options),
+                ...recursionCycleOutput(child, context),
+                ...(suppressed ? { suppressed } : {}),
+                // accepted complexity is not held to thresholds
+                ...(suppressed ? {} : thresholdsOutput(childCost.score, maxDepth, context.options)),
             });
         } else {
             // the child's inner is all part of this node's direct inner scope
             inner.push(...childCost.inner);
+            increments.push(...childCost.increments);
+            decisions += childCost.decisions;
         }
     }
 
     return {
         score,
-        inner
+        inner,
+        increments,
+        decisions,
+        deepest,
     };
 }
 
-function costOfDepth(node: ts.Node, depth: number): number {
+function costOfDepth(ts: TypeScript, node: ts.Node, depth: number, profile: ScoringProfile): number {
     // increment for nesting level
     if (depth > 0) {
         if (ts.isCatchClause(node)
             || ts.isConditionalExpression(node)
-            || ts.isConditionalTypeNode(node)
+            || (profile.typeOperators && ts.isConditionalTypeNode(node))
             || ts.isDoStatement(node)
             || ts.isForInStatement(node)
             || ts.isForOfStatement(node)
             || ts.isForStatement(node)
-            || ts.isMappedTypeNode(node)
+            || (profile.typeOperators && ts.isMappedTypeNode(node))
             || ts.isSwitchStatement(node)
             || ts.isWhileStatement(node)
+            || (profile.jsx && isConditionalRendering(ts, node))
+            || (profile.jsx && isRenderCallbackCall(ts, node))
+            || (profile.promiseChains && isPromiseCatch(ts, node))
             || (
 
                 // increment for `if`, but not `else if`
@@ -93,27 +351,52 @@ function costOfDepth(node: ts.Node, depth: number): number {
     return 0;
 }
 
-function inherentCost(node: ts.Node, scope: Scope): number {
+function inherentCost(node: ts.Node, scope: Scope, context: FileContext): number {
+    const { ts, profile, checker } = context;
+
+    // a container that recurses through other containers
+    if (context.recursionCycles.has(node)) {
+        return 1;
+    }
+
     // certain language features carry and inherent cost
-    if (isSequenceOfDifferentBooleanOperations(node)
+    if (isSequenceOfDifferentBooleanOperations(ts, node)
         || ts.isCatchClause(node)
         || ts.isConditionalExpression(node)
-        || ts.isConditionalTypeNode(node)
+        || (profile.typeOperators && ts.isConditionalTypeNode(node))
         || ts.isDoStatement(node)
         || ts.isForInStatement(node)
         || ts.isForOfStatement(node)
         || ts.isForStatement(node)
-        || ts.isMappedTypeNode(node)
+        || (profile.typeOperators && ts.isMappedTypeNode(node))
         || ts.isSwitchStatement(node)
         || ts.isWhileStatement(node)
-        || isBreakOrContinueToLabel(node)
+        || isBreakOrContinueToLabel(ts, node)
+        || (profile.jsx && isConditionalRendering(ts, node))
+        || (profile.jsx && isRenderCallbackCall(ts, node))
+        || (profile.promiseChains && isPromiseCatch(ts, node))
     ) {
         return 1;
     }
 
-    const calledName = getNameIfCalledNode(node);
-    if (calledName !== undefined) {
-        return scope.includes(calledName) ? 1 : 0;
+    if (profile.regex) {
+        const pattern = getRegexPattern(ts, node);
+        if (pattern !== undefined) {
+            return regexScore(measureRegex(pattern));
+        }
+    }
+
+    if (checker !== undefined) {
+        if (ts.isIdentifier(node)) {
+            return isRecursiveReference(ts, node, checker, !profile.recursiveReferences) ? 1 : 0;
+        }
+    } else {
+        const calledName = profile.recursiveReferences
+            ? getNameIfCalledNode(ts, node)
+            : getCalleeName(ts, node);
+        if (calledName !== undefined) {
+            return scope.includes(calledName) ? 1 : 0;
+        }
     }
 
     // An `if` may contain an else keyword followed by else code.
@@ -136,7 +419,7 @@ function inherentCost(node: ts.Node, scope: Scope): number {
         return score;
     }
 
-    if (isBinaryTypeOperator(node)) {
+    if (profile.typeOperators && isBinaryTypeOperator(ts, node)) {
         // This node naturally represents a sequence of binary type operators.
         // (unlike normal binary operators)
         let score = 1;
@@ -149,7 +432,7 @@ function inherentCost(node: ts.Node, scope: Scope): number {
         const syntaxList = node.getChildren()[0];
         const numOfSequenceInterrupts = countNotAtTheEnds(
             syntaxList.getChildren(),
-            isBinaryTypeOperator
+            child => isBinaryTypeOperator(ts, child)
         );
 
         score += numOfSequenceInterrupts;
@@ -160,26 +443,186 @@ function inherentCost(node: ts.Node, scope: Scope): number {
     return 0;
 }
 
+/**
+ * @returns the number of decision points that McCabe's cyclomatic complexity counts for the node
+ */
+function decisionPoints(ts: TypeScript, node: ts.Node): number {
+    if (ts.isCaseClause(node)
+        || ts.isCatchClause(node)
+        || ts.isConditionalExpression(node)
+        || ts.isDoStatement(node)
+        || ts.isForInStatement(node)
+        || ts.isForOfStatement(node)
+        || ts.isForStatement(node)
+        || ts.isIfStatement(node)
+        || ts.isWhileStatement(node)
+    ) {
+        return 1;
+    }
+
+    // each short-circuiting operator is a branch
+    if (ts.isBinaryExpression(node)) {
+        switch (node.operatorToken.kind) {
+            case ts.SyntaxKind.AmpersandAmpersandToken:
+            case ts.SyntaxKind.BarBarToken:
+            case ts.SyntaxKind.QuestionQuestionToken:
+            case ts.SyntaxKind.AmpersandAmpersandEqualsToken:
+            case ts.SyntaxKind.BarBarEqualsToken:
+            case ts.SyntaxKind.QuestionQuestionEqualsToken:
+                return 1;
+        }
+    }
+
+    return 0;
+}
+
+function cyclomaticOutput(decisions: number, options: Options): { cyclomatic?: number } {
+    if (options.cyclomatic) {
+        // there is always one path through the code
+        return { cyclomatic: decisions + 1 };
+    }
+
+    return {};
+}
+
+function halsteadOutput(ts: TypeScript, nodes: ts.Node[], options: Options): { halstead?: Halstead } {
+    if (options.halstead) {
+        return { halstead: halsteadMetrics(ts, nodes) };
+    }
+
+    return {};
+}
+
+function recursionCycleOutput(node: ts.Node, context: FileContext): { recursionCycle?: string[] } {
+    const recursionCycle = context.recursionCycles.get(node);
+
+    if (recursionCycle !== undefined) {
+        return { recursionCycle };
+    }
+
+    return {};
+}
+
+/**
+ * @param increments The increments of a container, which exclude those of inner containers
+ */
+function selfScore(increments: Increment[]): number {
+    return increments.reduce((sum, increment) => sum + increment.inherent + increment.nesting, 0);
+}
+
+/**
+ * @returns the deeper of the two, or the left one if they are as deep
+ */
+function deeperOf(left: Deepest, right: Deepest | undefined): Deepest;
+function deeperOf(left: Deepest | undefined, right: Deepest): Deepest;
+function deeperOf(left: Deepest | undefined, right: Deepest | undefined): Deepest | undefined;
+function deeperOf(left: Deepest | undefined, right: Deepest | undefined): Deepest | undefined {
+    if (left === undefined) {
+        return right;
+    }
+
+    if (right === undefined || left.depth > right.depth) {
+        return left;
+    }
+
+    if (right.depth > left.depth) {
+        return right;
+    }
+
+    // children are not visited in the order they are written
+    return right.node.getStart() < left.node.getStart()
+        ? right
+        : left;
+}
+
+function maxDepthOutput(deepest: Deepest): MaxDepth {
+    return {
+        depth: deepest.depth,
+        ...getColumnAndLine(deepest.node),
+    };
+}
+
+function thresholdsOutput(
+    score: number,
+    maxDepth: MaxDepth,
+    options: Options
+): { exceededThresholds?: ThresholdName[] } {
+    const values: Record<ThresholdName, number> = {
+        maxDepth: maxDepth.depth,
+        score,
+    };
+
+    const exceededThresholds = (Object.keys(values) as ThresholdName[])
+        .filter(name => {
+            const threshold = options.thresholds[name];
+            return threshold !== undefined && values[name] > threshold;
+        });
+
+    if (exceededThresholds.length > 0) {
+        return { exceededThresholds };
+    }
+
+    return {};
+}
+
+function syntaxDiagnosticsOutput(
+    syntaxDiagnostics: SyntaxDiagnostic[]
+): { syntaxDiagnostics?: SyntaxDiagnostic[] } {
+    if (syntaxDiagnostics.length > 0) {
+        return { syntaxDiagnostics };
+    }
+
+    return {};
+}
+
+function incrementsOutput(increments: Increment[], options: Options): { increments?: Increment[] } {
+    if (options.increments) {
+        // children are not visited in the order they are written
+        const inSourceOrder = [...increments]
+            .sort((left, right) => left.line - right.line || left.column - right.column);
+
+        return { increments: inSourceOrder };
+    }
+
+    return {};
+}
+
 /**
  * @param node The node whose cost we want
  * @param topLevel Whether the node is at the top level of a file
+ * @param context The analysis of the file the node is in
  * @param depth The depth the node is at
  * @param scope The scope at the node
+ * @param containerNames The names of the innermost container the node is in
  */
 function nodeCost(
     node: ts.Node,
     topLevel: boolean,
+    context: FileContext,
     depth = 0,
     scope = new Scope([], []),
     variableBeingDefined: string | undefined = undefined,
-): ScoreAndInner {
-    let score = inherentCost(node, scope);
-    score += costOfDepth(node, depth);
+    containerNames: QualifiedNames | undefined = undefined,
+): NodeCost {
+    const { ts } = context;
+
+    const inherent = inherentCost(node, scope, context);
+    const nesting = costOfDepth(ts, node, depth, context.profile);
+    let score = inherent + nesting;
+
+    const increments = [] as Increment[];
+    if (score > 0) {
+        if (context.suppressedLines.has(getColumnAndLine(node).line)) {
+            score = 0;
+        } else {
+            increments.push(createIncrement(ts, node, inherent, nesting, context.profile, context.recursionCycles.get(node)));
+        }
+    }
 
     // get the ancestors container names from the perspective of this node's children
     const namedAncestorsOfChildren = scope
-        .maybeAdd(node, variableBeingDefined);
-    const { same, below } = whereAreChildren(node);
+        .maybeAdd(ts, node, variableBeingDefined);
+    const { same, below, levelsBelow = 1 } = whereAreChildren(ts, node, context.profile);
 
     /**
      * The name being introduced (if there is one)
@@ -190,28 +633,46 @@ function nodeCost(
      * let a = f( $undefined$ () => {} );
      * let a =                      () => { $undefined$ };
      */
-    let newVariableBeingDefined = getNameOfAssignment(node);
+    let newVariableBeingDefined = getNameOfAssignment(ts, node);
     if (newVariableBeingDefined === undefined
-        && passThroughNameBeingAssigned(node)
+        && passThroughNameBeingAssigned(ts, node)
     ) {
         newVariableBeingDefined = variableBeingDefined;
     }
 
-    const costOfSameDepthChildren = aggregateCostOfChildren(same, depth, topLevel, namedAncestorsOfChildren, newVariableBeingDefined);
+    const costOfSameDepthChildren = aggregateCostOfChildren(same, depth, topLevel, context, namedAncestorsOfChildren, newVariableBeingDefined, containerNames);
 
     // The nodes below this node have the same depth number,
     // iff this node is top level and it is a container.
-    const container = isContainer(node);
-    const depthOfBelow = depth + (topLevel && container ? 0 : 1);
-    const costOfBelowChildren = aggregateCostOfChildren(below, depthOfBelow, false, namedAncestorsOfChildren, newVariableBeingDefined);
+    // The body of a function or class static block that is not top level is where the options say.
+    const container = isContainer(ts, node);
+    const depthOfBelow = topLevel && container
+        ? depth
+        : isFunctionNode(ts, node) || isClassStaticBlock(ts, node)
+            ? depthOfNestedFunctionBody(depth, context.options.nestedFunctionDepth)
+            : depth + levelsBelow;
+    const costOfBelowChildren = aggregateCostOfChildren(below, depthOfBelow, false, context, namedAncestorsOfChildren, newVariableBeingDefined, containerNames);
 
     score += costOfSameDepthChildren.score;
     score += costOfBelowChildren.score;
 
     const inner = [...costOfSameDepthChildren.inner, ...costOfBelowChildren.inner];
+    increments.push(...costOfSameDepthChildren.increments, ...costOfBelowChildren.increments);
+
+    const decisions = decisionPoints(ts, node)
+        + costOfSameDepthChildren.decisions
+        + costOfBelowChildren.decisions;
+
+    const deepest = deeperOf(
+        deeperOf({ depth, node }, costOfSameDepthChildren.deepest),
+        costOfBelowChildren.deepest,
+    );
 
     return {
         inner,
         score,
+        increments,
+        decisions,
+        deepest,
     };
 }
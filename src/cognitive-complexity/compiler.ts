@@ -0,0 +1,29 @@
+/**
+ * Purpose: choose which version of TypeScript parses and inspects code.
+ */
+
+import * as bundledModule from "typescript";
+
+/**
+ * A TypeScript module.
+ * Code is inspected with the module that parsed it,
+ * because each version of TypeScript numbers the kinds of node differently.
+ */
+export type TypeScript = typeof bundledModule;
+
+/**
+ * @param modulePath The path to a TypeScript module, or the name of one,
+ * which is resolved from the working directory, e.g. `typescript` for a project's own TypeScript.
+ * Undefined gives the TypeScript that this package depends on.
+ */
+export function loadTypeScript(modulePath: string | undefined): TypeScript {
+    if (modulePath === undefined) {
+        return bundledModule;
+    }
+
+    if (modulePath === "") {
+        throw new Error("The path to the TypeScript module is empty.");
+    }
+
+    return require(require.resolve(modulePath, { paths: [process.cwd()] }));
+}
@@ -1,4 +1,4 @@
-import * as ts from "typescript";
+import type * as ts from "typescript";
 import { debuglog } from "util";
 
 export const testLog = debuglog("test");
@@ -2,46 +2,95 @@
  * Purpose: get children of a node organised by their depth.
  */
 
-import * as ts from "typescript";
-import { isForLikeStatement, ForLikeStatement } from "./node-inspection";
+import type * as ts from "typescript";
+import { TypeScript } from "./compiler";
+import {
+    countEarlierThenCalls,
+    isClassStaticBlock,
+    isConditionalRendering,
+    isForLikeStatement,
+    isMethodCall,
+    ForLikeStatement
+} from "./node-inspection";
+import { ScoringProfile } from "./profiles";
 
 interface DepthOfChildren {
     /**
      * The same level of depth.
      */
-    same: ts.Node[];
+    same: readonly ts.Node[];
 
     /**
-     * One level of depth below.
+     * One level of depth below, unless `levelsBelow` says otherwise.
      */
-    below: ts.Node[];
+    below: readonly ts.Node[];
+
+    /**
+     * How many levels of depth below the `below` children are. 1 when not given.
+     */
+    levelsBelow?: number;
 };
 
+/**
+ * The places the body of a function or class static block that is not at the top level of a file can be.
+ * See `Options.nestedFunctionDepth`.
+ */
+export const nestedFunctionDepths = ["add", "inherit", "reset"] as const;
+
+export type NestedFunctionDepth = typeof nestedFunctionDepths[number];
+
+export function isNestedFunctionDepth(name: string): name is NestedFunctionDepth {
+    return (nestedFunctionDepths as readonly string[]).includes(name);
+}
+
+/**
+ * @param depth The depth of a function that is not at the top level of a file
+ * @param rule Where the body of the function is
+ * @returns the depth of the body of the function
+ */
+export function depthOfNestedFunctionBody(depth: number, rule: NestedFunctionDepth): number {
+    switch (rule) {
+        case "add":
+            return depth + 1;
+        case "inherit":
+            return depth;
+        case "reset":
+            return 0;
+    }
+}
+
 /**
  * @param node The node whose children to categorise by depth
+ * @param profile The scoring rules in use
  * @returns a tuple of [children and the same depth, children at one level below]
  */
-export function whereAreChildren(node: ts.Node): DepthOfChildren {
-    if (ts.isArrowFunction(node)) {
+export function whereAreChildren(ts: TypeScript, node: ts.Node, profile: ScoringProfile): DepthOfChildren {
+    if (profile.jsx && isConditionalRendering(ts, node)) {
+        return conditionalRendering(node);
+    } else if (profile.promiseChains && isMethodCall(ts, node, ["then"]) && countEarlierThenCalls(ts, node) > 0) {
+        return chainedThenCall(ts, node);
+    } else if (ts.isArrowFunction(node)) {
         return arrowFunction(node);
     } else if (ts.isCatchClause(node)) {
         return catchClause(node);
+    } else if (isClassStaticBlock(ts, node)) {
+        return classStaticBlock(node);
     } else if (ts.isConditionalExpression(node)) {
         return conditionalExpression(node);
     } else if (ts.isConditionalTypeNode(node)) {
-        return conditionalType(node);
+        return conditionalType(ts, node);
     } else if (ts.isDoStatement(node)) {
         return doStatement(node);
-    } else if (isForLikeStatement(node)) {
-        return forLikeStatement(node);
+    } else if (isForLikeStatement(ts, node)) {
+        return forLikeStatement(ts, node);
     } else if (ts.isFunctionDeclaration(node)) {
         return functionDeclaration(node);
     } else if (ts.isFunctionExpression(node)) {
         return functionExpression(node);
     } else if (ts.isIfStatement(node)) {
-        return ifStatement(node);
+        return ifStatement(ts, node);
     } else if (ts.isMethodDeclaration(node)) {
-        return methodDeclaration(node);
+        return methodDeclaration(ts, node);
     } else if (ts.isSwitchStatement(node)) {
         return switchStatement(node);
     } else if (ts.isWhileStatement(node)) {
@@ -66,14 +115,42 @@ function arrowFunction(node: ts.ArrowFunction): DepthOfChildren {
 }
 
 function catchClause(node: ts.CatchClause): DepthOfChildren {
+    // the variable is optional, e.g. `catch { ... }`
+    const variableDefinition = node.variableDeclaration;
+    const catchCode = node.block;
+
+    return {
+        same: variableDefinition !== undefined ? [variableDefinition] : [],
+        below: [catchCode]
+    };
+}
+
+function chainedThenCall(ts: TypeScript, node: ts.CallExpression): DepthOfChildren {
     const children = node.getChildren();
 
-    const variableDefinition = children[2];
-    const catchCode = children[4];
+    // the promise chain before this call, and the brackets
+    const same = children.filter((_, i) => i !== children.length - 2);
+    // the arguments
+    const below = [children[children.length - 2]];
 
     return {
-        same: [variableDefinition],
-        below: [catchCode]
+        same,
+        below,
+        // a level deeper for each `.then` before this one
+        levelsBelow: countEarlierThenCalls(ts, node)
+    };
+}
+
+function classStaticBlock(node: ts.ClassStaticBlockDeclaration): DepthOfChildren {
+    const children = node.getChildren();
+
+    const staticKeyword = children[0];
+    const block = children[1];
+
+    // like the body of a method
+    return {
+        same: [staticKeyword],
+        below: [block]
     };
 }
 
@@ -90,7 +167,20 @@ function conditionalExpression(node: ts.ConditionalExpression): DepthOfChildren
     };
 }
 
-function conditionalType(node: ts.ConditionalTypeNode): DepthOfChildren {
+function conditionalRendering(node: ts.BinaryExpression): DepthOfChildren {
+    const children = node.getChildren();
+
+    const condition = children[0];
+    const operator = children[1];
+    const renderedCode = children[2];
+
+    return {
+        same: [condition, operator],
+        below: [renderedCode]
+    };
+}
+
+function conditionalType(ts: TypeScript, node: ts.ConditionalTypeNode): DepthOfChildren {
     const children = node.getChildren();
 
     const endOfCondition = children
@@ -124,7 +214,7 @@ function doStatement(node: ts.DoStatement): DepthOfChildren {
     return { same, below };
 }
 
-function forLikeStatement(node: ForLikeStatement): DepthOfChildren {
+function forLikeStatement(ts: TypeScript, node: ForLikeStatement): DepthOfChildren {
     const same = [] as ts.Node[];
     const below = [] as ts.Node[];
 
@@ -166,12 +256,12 @@ function functionExpression(node: ts.FunctionExpression): DepthOfChildren {
     const functionDecl = children.slice(0, -1);
 
     return {
-        same: functionBody,
-        below: functionDecl
+        same: functionDecl,
+        below: functionBody
     };
 }
 
-function ifStatement(node: ts.IfStatement): DepthOfChildren {
+function ifStatement(ts: TypeScript, node: ts.IfStatement): DepthOfChildren {
     const children = node.getChildren();
 
     const condition = children[2];
@@ -200,7 +290,7 @@ function ifStatement(node: ts.IfStatement): DepthOfChildren {
     };
 }
 
-function methodDeclaration(node: ts.MethodDeclaration): DepthOfChildren {
+function methodDeclaration(ts: TypeScript, node: ts.MethodDeclaration): DepthOfChildren {
     const same = [] as ts.Node[];
     const below = [] as ts.Node[];
 
@@ -0,0 +1,29 @@
+/**
+ * Purpose: find the syntax errors in a file, which make its score unreliable.
+ */
+
+import type * as ts from "typescript";
+import { TypeScript } from "./compiler";
+import { SyntaxDiagnostic } from "../../shared/types";
+
+/**
+ * The parser recovers from syntax errors,
+ * so a file with them still has a tree that can be scored.
+ * @param program A program that contains the file
+ */
+export function getSyntaxDiagnostics(ts: TypeScript, file: ts.SourceFile, program: ts.Program): SyntaxDiagnostic[] {
+    return program
+        .getSyntacticDiagnostics(file)
+        .map(diagnostic => {
+            const lineAndCol = file.getLineAndCharacterOfPosition(diagnostic.start ?? 0);
+
+            return {
+                column: lineAndCol.character + 1,
+                line: lineAndCol.line + 1,
+                code: diagnostic.code,
+                message: ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"),
+            };
+        })
+        // diagnostics for JavaScript files come after the parser's diagnostics
+        .sort((left, right) => left.line - right.line || left.column - right.column);
+}
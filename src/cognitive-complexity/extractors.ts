@@ -0,0 +1,164 @@
+/**
+ * Purpose: find the scripts in files that are not only script,
+ * such as Vue and Svelte single-file components and HTML pages.
+ */
+
+import type { ScriptKind } from "typescript";
+import { Options } from "./options";
+import { isScriptKindName, ScriptKindName, scriptKinds } from "./script-kinds";
+
+/**
+ * Where a script is in the text of a file.
+ */
+export interface ScriptBlock {
+    /**
+     * The position of the first character of the script.
+     */
+    start: number;
+    /**
+     * The position after the last character of the script.
+     */
+    end: number;
+    kind: ScriptKindName;
+}
+
+export interface ScriptExtractor {
+    /**
+     * Finds the scripts in the text of a file, in the order they are written.
+     */
+    extract: (text: string) => ScriptBlock[];
+    /**
+     * Whether each block is scored as a container.
+     * Otherwise the scripts are scored as if they were the whole file.
+     */
+    blocksAreContainers: boolean;
+}
+
+/**
+ * The scripts of a file, as one script.
+ */
+export interface ExtractedScripts {
+    /**
+     * The text of the file with everything but the scripts replaced by whitespace,
+     * so that each line and column in the scripts is the same as in the file.
+     */
+    sourceCode: string;
+    scriptKind: ScriptKind;
+}
+
+const componentExtractor: ScriptExtractor = {
+    extract: extractScriptElements,
+    blocksAreContainers: false,
+};
+
+const pageExtractor: ScriptExtractor = {
+    extract: extractScriptElements,
+    blocksAreContainers: true,
+};
+
+const componentExtractors: Record<string, ScriptExtractor> = {
+    ".svelte": componentExtractor,
+    ".vue": componentExtractor,
+};
+
+const pageExtractors: Record<string, ScriptExtractor> = {
+    ".htm": pageExtractor,
+    ".html": pageExtractor,
+};
+
+// comments are matched too, so that the elements inside them are left out,
+// and a comment can not start inside an element
+const scriptElementOrCommentPattern = /<!--[\s\S]*?(?:-->|$)|<script\b([^>]*)>([\s\S]*?)<\/script\s*>/gi;
+const langAttributePattern = /\blang\s*=\s*["']?(\w+)/i;
+const srcAttributePattern = /\bsrc\s*=/i;
+const typeAttributePattern = /\btype\s*=\s*["']?([\w/+.-]+)/i;
+const scriptTypes = ["module", "text/javascript", "application/javascript", "text/typescript"];
+
+/**
+ * @returns undefined when the file is not a kind that has scripts inside it
+ */
+export function getScriptExtractor(fileName: string, options: Options): ScriptExtractor | undefined {
+    const extractors = options.html
+        ? { ...componentExtractors, ...pageExtractors }
+        : componentExtractors;
+
+    const extension = Object.keys(extractors)
+        .find(extension => fileName.endsWith(extension));
+
+    return extension !== undefined
+        ? extractors[extension]
+        : undefined;
+}
+
+export function extractScripts(text: string, blocks: ScriptBlock[]): ExtractedScripts {
+    let sourceCode = "";
+    let end = 0;
+
+    for (const block of blocks) {
+        sourceCode += blankOut(text.slice(end, block.start)) + text.slice(block.start, block.end);
+        end = block.end;
+    }
+
+    sourceCode += blankOut(text.slice(end));
+
+    return {
+        sourceCode,
+        scriptKind: combinedScriptKind(blocks),
+    };
+}
+
+/**
+ * The `<script>` elements of HTML-like markup.
+ * Their `lang` attribute can be `js`, `jsx`, `ts`, or `tsx`, and defaults to `js`.
+ * Elements that load a script from elsewhere or that are not script, like templates, are left out,
+ * and so are elements inside comments.
+ */
+export function extractScriptElements(text: string): ScriptBlock[] {
+    const blocks: ScriptBlock[] = [];
+
+    for (const match of text.matchAll(scriptElementOrCommentPattern)) {
+        const [element, attributes, script] = match;
+
+        if (attributes === undefined) {
+            // a comment
+            continue;
+        }
+
+        const type = attributes.match(typeAttributePattern)?.[1].toLowerCase();
+        if (srcAttributePattern.test(attributes) || type !== undefined && !scriptTypes.includes(type)) {
+            continue;
+        }
+
+        const lang = attributes.match(langAttributePattern)?.[1].toLowerCase();
+        const end = (match.index ?? 0) + element.lastIndexOf("</");
+
+        blocks.push({
+            start: end - script.length,
+            end,
+            kind: lang !== undefined && isScriptKindName(lang) ? lang : "js",
+        });
+    }
+
+    return blocks;
+}
+
+/**
+ * Keeps the line breaks, so that lines stay where they are.
+ */
+function blankOut(text: string): string {
+    return text.replace(/[^\r\n]/g, " ");
+}
+
+/**
+ * TypeScript and JSX can be parsed when any of the scripts has them.
+ */
+function combinedScriptKind(blocks: ScriptBlock[]): ScriptKind {
+    const hasTypes = blocks.some(block => block.kind === "ts" || block.kind === "tsx");
+    const hasJsx = blocks.some(block => block.kind === "jsx" || block.kind === "tsx");
+
+    if (hasTypes) {
+        return hasJsx ? scriptKinds.tsx : scriptKinds.ts;
+    }
+
+    return hasJsx ? scriptKinds.jsx : scriptKinds.js;
+}
@@ -0,0 +1,35 @@
+/**
+ * Purpose: identify containers in a way that stays the same
+ * when the code around them moves, so they can be matched between runs.
+ */
+
+import { createHash } from "crypto";
+import { ContainerKind } from "../../shared/types";
+
+/**
+ * Creates the fingerprints of the containers in a file.
+ * Containers with the same name and kind are told apart by the order they are fingerprinted in.
+ */
+export class Fingerprinter {
+    private readonly filePath: string;
+    private readonly occurrences = new Map<string, number>();
+
+    constructor(filePath: string) {
+        // the same on every platform
+        this.filePath = filePath.replace(/\\/g, "/");
+    }
+
+    /**
+     * @param stableName The qualified name of the container, without positions
+     */
+    fingerprint(stableName: string, kind: ContainerKind): string {
+        const key = `${kind} ${stableName}`;
+        const occurrence = this.occurrences.get(key) ?? 0;
+        this.occurrences.set(key, occurrence + 1);
+
+        return createHash("sha1")
+            .update([this.filePath, kind, stableName, occurrence].join("\n"))
+            .digest("hex")
+            .slice(0, 16);
+    }
+}
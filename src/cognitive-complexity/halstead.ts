@@ -0,0 +1,113 @@
+/**
+ * Purpose: measure the Halstead metrics of code,
+ * which are based on the number of operators and operands in it.
+ */
+
+import type * as ts from "typescript";
+import { TypeScript } from "./compiler";
+import { Halstead } from "../../shared/types";
+import { isSyntaxList } from "./node-inspection";
+
+interface TokenCounts {
+    operators: Map<string, number>;
+    operands: Map<string, number>;
+}
+
+/**
+ * Code is measured by its tokens, including the tokens in any inner containers.
+ * Operands are identifiers and literals. Operators are every other keyword and punctuation.
+ *
+ * @param nodes The nodes that make up the code
+ */
+export function halsteadMetrics(ts: TypeScript, nodes: ts.Node[]): Halstead {
+    const counts: TokenCounts = {
+        operators: new Map(),
+        operands: new Map(),
+    };
+    for (const node of nodes) {
+        countTokens(ts, node, counts);
+    }
+
+    const distinctOperators = counts.operators.size;
+    const distinctOperands = counts.operands.size;
+    const totalOperators = sum(counts.operators.values());
+    const totalOperands = sum(counts.operands.values());
+
+    const vocabulary = distinctOperators + distinctOperands;
+    const length = totalOperators + totalOperands;
+
+    const volume = vocabulary > 0
+        ? length * Math.log2(vocabulary)
+        : 0;
+    const difficulty = distinctOperands > 0
+        ? (distinctOperators / 2) * (totalOperands / distinctOperands)
+        : 0;
+    const effort = difficulty * volume;
+
+    return {
+        volume: round(volume),
+        difficulty: round(difficulty),
+        effort: round(effort),
+    };
+}
+
+function countTokens(ts: TypeScript, node: ts.Node, counts: TokenCounts) {
+    if (ts.isJSDoc(node)) {
+        return;
+    }
+
+    const children = node.getChildren();
+
+    if (children.length > 0) {
+        for (const child of children) {
+            countTokens(ts, child, counts);
+        }
+    } else if (isIgnoredToken(ts, node)) {
+        return;
+    } else if (isOperand(ts, node)) {
+        increment(counts.operands, node.getText());
+    } else {
+        increment(counts.operators, ts.SyntaxKind[node.kind]);
+    }
+}
+
+function increment(counts: Map<string, number>, key: string) {
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+}
+
+/**
+ * Tokens that are not counted as an operator or an operand.
+ */
+function isIgnoredToken(ts: TypeScript, node: ts.Node): boolean {
+    // brackets are counted once per pair, by the opening bracket
+    return isSyntaxList(ts, node)
+        || node.kind === ts.SyntaxKind.CloseBraceToken
+        || node.kind === ts.SyntaxKind.CloseBracketToken
+        || node.kind === ts.SyntaxKind.CloseParenToken
+        || node.kind === ts.SyntaxKind.EndOfFileToken
+        || ts.isJsxText(node) && node.containsOnlyTriviaWhiteSpaces;
+}
+
+function isOperand(ts: TypeScript, node: ts.Node): boolean {
+    // literals include JSX text
+    return ts.isIdentifier(node)
+        || ts.isPrivateIdentifier(node)
+        || ts.isLiteralExpression(node)
+        || ts.isTemplateLiteralToken(node)
+        || node.kind === ts.SyntaxKind.FalseKeyword
+        || node.kind === ts.SyntaxKind.NullKeyword
+        || node.kind === ts.SyntaxKind.ThisKeyword
+        || node.kind === ts.SyntaxKind.TrueKeyword;
+}
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+function sum(values: Iterable<number>): number {
+    let total = 0;
+    for (const value of values) {
+        total += value;
+    }
+    return total;
+}
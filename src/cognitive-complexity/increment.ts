@@ -0,0 +1,153 @@
+/**
+ * Purpose: explain why a node adds to the score of the container it is in.
+ */
+
+import type * as ts from "typescript";
+import { TypeScript } from "./compiler";
+import { Increment } from "../../shared/types";
+import {
+    getColumnAndLine,
+    isBreakOrContinueToLabel,
+    isConditionalRendering,
+    isPromiseCatch,
+    isRenderCallbackCall,
+    isSequenceOfDifferentBooleanOperations
+} from "./node-inspection";
+import { getCalleeName, getNameIfCalledNode } from "./node-naming";
+import { ScoringProfile } from "./profiles";
+import { describeRegex, getRegexPattern, measureRegex } from "./regex";
+
+/**
+ * @param node The node that caused the increment
+ * @param inherent The inherent cost of the node
+ * @param nesting The cost of the depth the node is at
+ * @param profile The scoring rules that gave the increment
+ * @param recursionCycle The names of the containers the node recurses through, if any
+ */
+export function createIncrement(
+    ts: TypeScript,
+    node: ts.Node,
+    inherent: number,
+    nesting: number,
+    profile: ScoringProfile,
+    recursionCycle?: string[],
+): Increment {
+    const structure = recursionCycle !== undefined
+        ? `recursion cycle between ${recursionCycle.join(", ")}`
+        : describeStructure(ts, node, profile);
+
+    return {
+        ...getColumnAndLine(node),
+        syntaxKind: ts.SyntaxKind[node.kind],
+        inherent,
+        nesting,
+        // the nesting cost is equal to the depth when there is one
+        reason: nesting > 0
+            ? `nested ${structure} at depth ${nesting}`
+            : structure,
+    };
+}
+
+function describeStructure(ts: TypeScript, node: ts.Node, profile: ScoringProfile): string {
+    if (profile.jsx && isConditionalRendering(ts, node)) {
+        return `conditional rendering with ${node.operatorToken.getText()}`;
+    }
+
+    if (profile.jsx && isRenderCallbackCall(ts, node)) {
+        return "render callback";
+    }
+
+    if (profile.promiseChains && isPromiseCatch(ts, node)) {
+        return "promise catch";
+    }
+
+    const pattern = profile.regex ? getRegexPattern(ts, node) : undefined;
+    if (pattern !== undefined) {
+        return describeRegex(measureRegex(pattern));
+    }
+
+    if (isSequenceOfDifferentBooleanOperations(ts, node)) {
+        return `sequence of ${node.getChildAt(1).getText()}`;
+    }
+
+    if (ts.isCatchClause(node)) {
+        return "catch";
+    }
+
+    if (ts.isConditionalExpression(node)) {
+        return "conditional expression";
+    }
+
+    if (ts.isConditionalTypeNode(node)) {
+        return "conditional type";
+    }
+
+    if (ts.isDoStatement(node)) {
+        return "do while";
+    }
+
+    if (ts.isForInStatement(node)) {
+        return "for in";
+    }
+
+    if (ts.isForOfStatement(node)) {
+        return "for of";
+    }
+
+    if (ts.isForStatement(node)) {
+        return "for";
+    }
+
+    if (ts.isMappedTypeNode(node)) {
+        return "mapped type";
+    }
+
+    if (ts.isSwitchStatement(node)) {
+        return "switch";
+    }
+
+    if (ts.isWhileStatement(node)) {
+        return "while";
+    }
+
+    if (isBreakOrContinueToLabel(ts, node)) {
+        return ts.isBreakStatement(node)
+            ? "break to label"
+            : "continue to label";
+    }
+
+    if (ts.isIfStatement(node)) {
+        const isElseIf = ts.isIfStatement(node.parent)
+            && node.parent.elseStatement === node;
+        const keyword = isElseIf ? "else if" : "if";
+
+        const hasSoloElse = node.elseStatement !== undefined
+            && !ts.isIfStatement(node.elseStatement);
+
+        return hasSoloElse
+            ? `${keyword} with else`
+            : keyword;
+    }
+
+    if (ts.isUnionTypeNode(node)) {
+        return "sequence of union types";
+    }
+
+    if (ts.isIntersectionTypeNode(node)) {
+        return "sequence of intersection types";
+    }
+
+    // when recursion is found using symbols
+    if (ts.isIdentifier(node)) {
+        return `recursive reference to ${node.getText()}`;
+    }
+
+    const calledName = profile.recursiveReferences
+        ? getNameIfCalledNode(ts, node)
+        : getCalleeName(ts, node);
+    if (calledName !== undefined) {
+        return `recursive reference to ${calledName}`;
+    }
+
+    return ts.SyntaxKind[node.kind];
+}
@@ -0,0 +1,107 @@
+/**
+ * Purpose: measure where code ends and how many lines it spans.
+ */
+
+import type * as ts from "typescript";
+import { TypeScript } from "./compiler";
+import { SourceRange } from "../../shared/types";
+import { isSyntaxList } from "./node-inspection";
+
+/**
+ * The number of lines that have code on them,
+ * from the start of the file up to and including each line.
+ * Lines are numbered from 1, so the count at index 0 is always 0.
+ */
+export type CodeLineTotals = number[];
+
+/**
+ * Lines that only have whitespace or comments on them are not code.
+ */
+export function countCodeLines(ts: TypeScript, file: ts.SourceFile): CodeLineTotals {
+    const lineCount = file.getLineStarts().length;
+
+    const isCodeLine = new Array<boolean>(lineCount + 1).fill(false);
+
+    function visit(node: ts.Node) {
+        if (ts.isJSDoc(node)) {
+            return;
+        }
+
+        const children = node.getChildren();
+
+        if (children.length > 0) {
+            for (const child of children) {
+                visit(child);
+            }
+        } else if (isCodeToken(ts, node)) {
+            const startLine = lineOf(file, node.getStart());
+            const endLine = lineOf(file, node.getEnd());
+            for (let line = startLine; line <= endLine; line++) {
+                isCodeLine[line] = true;
+            }
+        }
+    }
+
+    visit(file);
+
+    const totals = [0];
+    for (let line = 1; line <= lineCount; line++) {
+        totals.push(totals[line - 1] + (isCodeLine[line] ? 1 : 0));
+    }
+
+    return totals;
+}
+
+/**
+ * @param codeLineTotals The code lines of the file the node is in
+ */
+export function getSourceRange(ts: TypeScript, node: ts.Node, codeLineTotals: CodeLineTotals): SourceRange {
+    const file = node.getSourceFile();
+
+    // a file is measured from its first line to its last non-whitespace character
+    const start = ts.isSourceFile(node)
+        ? 0
+        : node.getStart();
+    const end = ts.isSourceFile(node)
+        ? node.text.trimEnd().length
+        : node.getEnd();
+
+    return getSourceRangeBetween(file, start, end, codeLineTotals);
+}
+
+/**
+ * @param start The position of the first character
+ * @param end The position after the last character
+ */
+export function getSourceRangeBetween(
+    file: ts.SourceFile,
+    start: number,
+    end: number,
+    codeLineTotals: CodeLineTotals,
+): SourceRange {
+    const startLine = lineOf(file, start);
+    const endLineAndCol = file.getLineAndCharacterOfPosition(end);
+    const endLine = endLineAndCol.line + 1;
+
+    return {
+        // the end position is after the last character,
+        // so its 0-based character is the 1-based column of the last character
+        endColumn: endLineAndCol.character,
+        endLine,
+        physicalLines: endLine - startLine + 1,
+        logicalLines: codeLineTotals[endLine] - codeLineTotals[startLine - 1],
+    };
+}
+
+function isCodeToken(ts: TypeScript, node: ts.Node): boolean {
+    return !isSyntaxList(ts, node)
+        && node.kind !== ts.SyntaxKind.EndOfFileToken
+        && !(ts.isJsxText(node) && node.containsOnlyTriviaWhiteSpaces);
+}
+
+/**
+ * @returns the line of the position, numbered from 1
+ */
+function lineOf(file: ts.SourceFile, position: number): number {
+    return file.getLineAndCharacterOfPosition(position).line + 1;
+}
@@ -1,5 +1,6 @@
-import * as ts from "typescript";
-import { ColumnAndLine } from "../../shared/types";
+import type * as ts from "typescript";
+import { TypeScript } from "./compiler";
+import { ColumnAndLine, ContainerKind } from "../../shared/types";
 import { repeat } from "../util/util";
 
 export type ForLikeStatement = ts.ForStatement | ts.ForInOrOfStatement;
@@ -20,7 +21,7 @@ export function getColumnAndLine(node: ts.Node): ColumnAndLine {
     };
 }
 
-export function getIdentifier(node: ts.Node): string | undefined {
+export function getIdentifier(ts: TypeScript, node: ts.Node): string | undefined {
     for (const child of node.getChildren()) {
         if (ts.isIdentifier(child) || ts.isComputedPropertyName(child)) {
             return child.getText();
@@ -30,7 +31,7 @@ export function getIdentifier(node: ts.Node): string | undefined {
     return undefined;
 }
 
-export function getFirstNonParenthesizedAncestor(node: ts.Node): ts.Node {
+export function getFirstNonParenthesizedAncestor(ts: TypeScript, node: ts.Node): ts.Node {
     let firstNonParenthesisAncestor = node.parent;
 
     while (ts.isParenthesizedExpression(firstNonParenthesisAncestor)) {
@@ -40,22 +41,32 @@ export function getFirstNonParenthesizedAncestor(node: ts.Node): ts.Node {
     return firstNonParenthesisAncestor;
 }
 
-export function getTextWithoutBrackets(node: ts.Node): string {
+export function getTextWithoutBrackets(ts: TypeScript, node: ts.Node): string {
     if (ts.isParenthesizedExpression(node)) {
         return node.getChildren()
             .slice(1, -1) // ignore the bracket at each end
-            .map(getTextWithoutBrackets)
+            .map(child => getTextWithoutBrackets(ts, child))
             .join("");
     }
 
     return node.getText();
 }
 
-export function isBinaryTypeOperator(node: ts.Node): node is ts.UnionOrIntersectionTypeNode {
+export function isAncestor(ancestor: ts.Node, node: ts.Node): boolean {
+    for (let current = node.parent; current !== undefined; current = current.parent) {
+        if (current === ancestor) {
+            return true;
+        }
+    }
+
+    return false;
+}
+
+export function isBinaryTypeOperator(ts: TypeScript, node: ts.Node): node is ts.UnionOrIntersectionTypeNode {
     return ts.isUnionTypeNode(node) || ts.isIntersectionTypeNode(node);
 }
 
-export function isBreakOrContinueToLabel(node: ts.Node): boolean {
+export function isBreakOrContinueToLabel(ts: TypeScript, node: ts.Node): boolean {
     if (ts.isBreakOrContinueStatement(node)) {
         for (const child of node.getChildren()) {
             if (ts.isIdentifier(child)) {
@@ -67,9 +78,10 @@ export function isBreakOrContinueToLabel(node: ts.Node): boolean {
     return false;
 }
 
-export function isContainer(node: ts.Node): boolean {
-    return isFunctionNode(node)
+export function isContainer(ts: TypeScript, node: ts.Node): boolean {
+    return isFunctionNode(ts, node)
         || ts.isClassDeclaration(node)
+        || isClassStaticBlock(ts, node)
         || ts.isConstructorDeclaration(node)
         || ts.isInterfaceDeclaration(node)
         || ts.isModuleDeclaration(node)
@@ -78,13 +90,109 @@ export function isContainer(node: ts.Node): boolean {
         || ts.isSourceFile(node.parent);
 }
 
-export function isForLikeStatement(node: ts.Node): node is ForLikeStatement {
+/**
+ * @returns the kind of container the node is, if it is one that can be output
+ */
+export function getContainerKind(ts: TypeScript, node: ts.Node): ContainerKind | undefined {
+    if (ts.isAccessor(node)) {
+        return "accessor";
+    }
+
+    if (ts.isArrowFunction(node)) {
+        return "arrow";
+    }
+
+    if (ts.isClassDeclaration(node) || ts.isClassExpression(node)) {
+        return "class";
+    }
+
+    if (ts.isConstructorDeclaration(node)) {
+        return "constructor";
+    }
+
+    if (ts.isFunctionDeclaration(node) || ts.isFunctionExpression(node)) {
+        return "function";
+    }
+
+    if (ts.isInterfaceDeclaration(node)) {
+        return "interface";
+    }
+
+    if (ts.isMethodDeclaration(node)) {
+        return "method";
+    }
+
+    if (ts.isModuleDeclaration(node)) {
+        return "namespace";
+    }
+
+    if (isClassStaticBlock(ts, node)) {
+        return "static";
+    }
+
+    if (ts.isTypeAliasDeclaration(node)) {
+        return "type";
+    }
+
+    return undefined;
+}
+
+/**
+ * Whether the node renders JSX when a condition is met,
+ * e.g. `cond && <A/>` or `value ?? <Fallback/>`.
+ */
+export function isConditionalRendering(ts: TypeScript, node: ts.Node): node is ts.BinaryExpression {
+    if (!ts.isBinaryExpression(node)) {
+        return false;
+    }
+
+    const operatorKind = node.operatorToken.kind;
+    const operatorIsBoolean = operatorKind === ts.SyntaxKind.AmpersandAmpersandToken
+        || operatorKind === ts.SyntaxKind.BarBarToken
+        || operatorKind === ts.SyntaxKind.QuestionQuestionToken;
+
+    return operatorIsBoolean && isJsx(ts, skipParentheses(ts, node.right));
+}
+
+/**
+ * @returns the number of `.then` calls earlier in the promise chain the call is in,
+ * e.g. 2 for the last call in `promise.then(a).catch(b).then(c).then(d)`
+ */
+export function countEarlierThenCalls(ts: TypeScript, node: ts.CallExpression): number {
+    let count = 0;
+    let earlier: ts.Node = node.expression;
+
+    while (ts.isPropertyAccessExpression(earlier)) {
+        const call = skipParentheses(ts, earlier.expression);
+        if (!isMethodCall(ts, call, ["then", "catch", "finally"])) {
+            break;
+        }
+
+        if (call.expression.name.text === "then") {
+            count += 1;
+        }
+
+        earlier = call.expression;
+    }
+
+    return count;
+}
+
+/**
+ * Whether the node is a class static block, e.g. `static { ... }`.
+ * TypeScript before 4.4 can not parse them, and has no function to find them.
+ */
+export function isClassStaticBlock(ts: TypeScript, node: ts.Node): node is ts.ClassStaticBlockDeclaration {
+    return ts.isClassStaticBlockDeclaration?.(node) ?? false;
+}
+
+export function isForLikeStatement(ts: TypeScript, node: ts.Node): node is ForLikeStatement {
     return ts.isForInStatement(node)
         || ts.isForOfStatement(node)
         || ts.isForStatement(node);
 }
 
-export function isFunctionNode(node: ts.Node): node is FunctionNode {
+export function isFunctionNode(ts: TypeScript, node: ts.Node): node is FunctionNode {
     return ts.isArrowFunction(node)
         || ts.isFunctionDeclaration(node)
         || ts.isFunctionExpression(node)
@@ -92,7 +200,107 @@ export function isFunctionNode(node: ts.Node): node is FunctionNode {
         || ts.isAccessor(node);
 }
 
-export function isSequenceOfDifferentBooleanOperations(node: ts.Node): boolean {
+/**
+ * Whether the node accesses one of the methods that every function has,
+ * e.g. `foo.call`.
+ * @param methods The names of the methods to look for
+ */
+export function isFunctionMethodAccess(
+    ts: TypeScript,
+    node: ts.Node,
+    methods: ReadonlyArray<string> = ["apply", "bind", "call"],
+): node is ts.PropertyAccessExpression {
+    return ts.isPropertyAccessExpression(node)
+        && methods.includes(node.name.getText());
+}
+
+/**
+ * Whether the identifier refers to a value without calling it
+ * by passing it to a function or by accessing one of its function methods.
+ * e.g. `arr.map(foo)`, `foo.call(this)`
+ */
+export function isUncalledReference(ts: TypeScript, node: ts.Identifier): boolean {
+    let reference: ts.Node = node;
+    while (ts.isParenthesizedExpression(reference.parent)) {
+        reference = reference.parent;
+    }
+
+    const parent = reference.parent;
+
+    if (ts.isCallExpression(parent) || ts.isNewExpression(parent)) {
+        return parent.arguments !== undefined
+            && parent.arguments.some(argument => argument === reference);
+    }
+
+    return isFunctionMethodAccess(ts, parent)
+        && parent.expression === reference;
+}
+
+/**
+ * Whether the node calls a method with one of the given names, e.g. `promise.then(...)`.
+ */
+export function isMethodCall(
+    ts: TypeScript,
+    node: ts.Node,
+    methods: ReadonlyArray<string>
+): node is ts.CallExpression & { expression: ts.PropertyAccessExpression } {
+    return ts.isCallExpression(node)
+        && ts.isPropertyAccessExpression(node.expression)
+        && methods.includes(node.expression.name.text);
+}
+
+/**
+ * Whether the node is the name of a call that handles the rejection of a promise,
+ * e.g. `catch` in `promise.catch(error => {})`.
+ * The name is used rather than the call, because the call starts where its chain does.
+ */
+export function isPromiseCatch(ts: TypeScript, node: ts.Node): node is ts.Identifier {
+    const call = node.parent?.parent;
+
+    return ts.isIdentifier(node)
+        && ts.isPropertyAccessExpression(node.parent)
+        && node.parent.name === node
+        && call !== undefined
+        && isMethodCall(ts, call, ["catch"])
+        && call.expression === node.parent
+        && call.arguments.length > 0;
+}
+
+export function isJsx(ts: TypeScript, node: ts.Node): boolean {
+    return ts.isJsxElement(node)
+        || ts.isJsxSelfClosingElement(node)
+        || ts.isJsxFragment(node);
+}
+
+/**
+ * Whether the node is a call to `.map` or `.flatMap` with a callback,
+ * directly inside a JSX expression, e.g. `{items.map(item => <li/>)}`.
+ */
+export function isRenderCallbackCall(ts: TypeScript, node: ts.Node): node is ts.CallExpression {
+    if (!ts.isCallExpression(node)
+        || !ts.isJsxExpression(getFirstNonParenthesizedAncestor(ts, node))
+        || !ts.isPropertyAccessExpression(node.expression)
+    ) {
+        return false;
+    }
+
+    const methodName = node.expression.name.text;
+    const callback = node.arguments[0];
+
+    return (methodName === "map" || methodName === "flatMap")
+        && callback !== undefined
+        && (ts.isArrowFunction(callback) || ts.isFunctionExpression(callback));
+}
+
+/**
+ * Whether the node is e.g. `value satisfies T`.
+ * TypeScript before 4.9 can not parse them, and has no function to find them.
+ */
+export function isSatisfiesExpression(ts: TypeScript, node: ts.Node): node is ts.SatisfiesExpression {
+    return ts.isSatisfiesExpression?.(node) ?? false;
+}
+
+export function isSequenceOfDifferentBooleanOperations(ts: TypeScript, node: ts.Node): boolean {
     if (!ts.isBinaryExpression(node)) {
         return false;
     }
@@ -107,7 +315,7 @@ export function isSequenceOfDifferentBooleanOperations(node: ts.Node): boolean {
         || operatorToken.kind === ts.SyntaxKind.BarBarToken
         || operatorToken.kind === ts.SyntaxKind.QuestionQuestionToken;
 
-    const firstNonParenthesisAncestor = getFirstNonParenthesizedAncestor(node);
+    const firstNonParenthesisAncestor = getFirstNonParenthesizedAncestor(ts, node);
 
     if (operatorIsBoolean) {
         // True if the parent does not use the same operator as this node.
@@ -119,22 +327,32 @@ export function isSequenceOfDifferentBooleanOperations(node: ts.Node): boolean {
     return false;
 }
 
-export function isSyntaxList(node: ts.Node): node is ts.SyntaxList {
+export function isSyntaxList(ts: TypeScript, node: ts.Node): node is ts.SyntaxList {
     return node.kind === ts.SyntaxKind.SyntaxList;
 }
 
-export function passThroughNameBeingAssigned(node: ts.Node): boolean {
-    return isSyntaxList(node)
+export function skipParentheses(ts: TypeScript, node: ts.Expression): ts.Expression {
+    while (ts.isParenthesizedExpression(node)) {
+        node = node.expression;
+    }
+
+    return node;
+}
+
+export function passThroughNameBeingAssigned(ts: TypeScript, node: ts.Node): boolean {
+    return isSyntaxList(ts, node)
         || ts.isObjectLiteralExpression(node)
-        || ts.isParenthesizedExpression(node);
+        || ts.isParenthesizedExpression(node)
+        // e.g. `const a = (() => {}) satisfies F;`
+        || isSatisfiesExpression(ts, node);
 }
 
-export function report(node: ts.Node, depth: number = 0) {
+export function report(ts: TypeScript, node: ts.Node, depth: number = 0) {
     const toLog = [repeat("\t", depth), ts.SyntaxKind[node.kind], node.kind];
 
     console.error(...toLog);
 
     for (const child of node.getChildren()) {
-        report(child, depth + 1);
+        report(ts, child, depth + 1);
     }
 }
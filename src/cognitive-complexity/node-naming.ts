@@ -1,37 +1,48 @@
-import * as ts from "typescript";
+import type * as ts from "typescript";
+import { TypeScript } from "./compiler";
+import { ColumnAndLine, ContainerKind } from "../../shared/types";
 import { UnreachableNodeState } from "../util/node-util";
 import {
+    getColumnAndLine,
     getIdentifier,
     FunctionNode,
     isFunctionNode,
-    getTextWithoutBrackets
+    getTextWithoutBrackets,
+    isClassStaticBlock,
+    isFunctionMethodAccess,
+    isSatisfiesExpression,
+    isUncalledReference
 } from "./node-inspection";
 
-export function chooseContainerName(node: ts.Node, variableBeingDefined: string | undefined): string | undefined {
-    if (isFunctionNode(node)) {
-        return getFunctionNodeName(node)
+export function chooseContainerName(ts: TypeScript, node: ts.Node, variableBeingDefined: string | undefined): string | undefined {
+    if (isFunctionNode(ts, node)) {
+        return getFunctionNodeName(ts, node)
             ?? variableBeingDefined
             ?? "";
     }
 
     if (ts.isClassDeclaration(node)) {
-        return getClassDeclarationName(node);
+        return getClassDeclarationName(ts, node);
     }
 
     if (ts.isClassExpression(node)) {
-        return getClassExpressionName(node, variableBeingDefined);
+        return getClassExpressionName(ts, node, variableBeingDefined);
     }
 
     if (ts.isConstructorDeclaration(node)) {
         return "constructor";
     }
 
+    if (isClassStaticBlock(ts, node)) {
+        return "static";
+    }
+
     if (ts.isInterfaceDeclaration(node)) {
         return getInterfaceDeclarationName(node);
     }
 
     if (ts.isModuleDeclaration(node)) {
-        return getModuleDeclarationName(node);
+        return getModuleDeclarationName(ts, node);
     }
 
     if (ts.isTypeAliasDeclaration(node)) {
@@ -41,17 +52,118 @@ export function chooseContainerName(node: ts.Node, variableBeingDefined: string
     return undefined;
 }
 
-export function getIntroducedLocalName(node: ts.Node): string | undefined {
+/**
+ * Names made of the name of a container and the names of the containers it is in.
+ */
+export interface QualifiedNames {
+    /**
+     * Anonymous containers are named by their kind and position,
+     * e.g. `Outer.Inner.method` or `foo.<arrow@12:5>`.
+     */
+    qualifiedName: string;
+    /**
+     * Anonymous containers are only named by their kind,
+     * so the name stays the same when code moves, e.g. `foo.<arrow>`.
+     */
+    stableName: string;
+}
+
+/**
+ * @param name The name chosen for the container
+ * @param containerNames The names of the container the node is in, if there is one
+ */
+export function getQualifiedNames(
+    ts: TypeScript,
+    node: ts.Node,
+    name: string,
+    kind: ContainerKind,
+    containerNames: QualifiedNames | undefined,
+): QualifiedNames {
+    const anonymousOrNamed = name === ""
+        ? getAnonymousNames(kind, getColumnAndLine(node))
+        : { qualifiedName: name, stableName: name };
+
+    const objectName = getObjectNameOfMember(ts, node);
+    const ownNames = objectName === undefined
+        ? anonymousOrNamed
+        : {
+            qualifiedName: `${objectName}.${anonymousOrNamed.qualifiedName}`,
+            stableName: `${objectName}.${anonymousOrNamed.stableName}`,
+        };
+
+    if (containerNames === undefined) {
+        return ownNames;
+    }
+
+    return {
+        qualifiedName: `${containerNames.qualifiedName}.${ownNames.qualifiedName}`,
+        stableName: `${containerNames.stableName}.${ownNames.stableName}`,
+    };
+}
+
+/**
+ * @returns the name of the object literal that the node is a member of,
+ * e.g. `obj` for `method() {}` and `arrow: () => {}` in `const obj = { ... }`.
+ * Undefined if the node is not a member of a named object literal.
+ */
+function getObjectNameOfMember(ts: TypeScript, node: ts.Node): string | undefined {
+    const member = ts.isPropertyAssignment(node.parent)
+        ? node.parent
+        : node;
+
+    return ts.isObjectLiteralExpression(member.parent)
+        ? getObjectLiteralName(ts, member.parent)
+        : undefined;
+}
+
+/**
+ * @returns the name of the variable or property that the object literal is assigned to,
+ * qualified by the names of the object literals that it is in,
+ * e.g. `obj.nested` for `const obj = { nested: { ... } }`.
+ */
+function getObjectLiteralName(ts: TypeScript, object: ts.ObjectLiteralExpression): string | undefined {
+    let holder = object.parent;
+    while (ts.isParenthesizedExpression(holder) || isSatisfiesExpression(ts, holder)) {
+        holder = holder.parent;
+    }
+
+    if (ts.isVariableDeclaration(holder) || ts.isPropertyDeclaration(holder)) {
+        return getIdentifier(ts, holder);
+    }
+
+    if (ts.isPropertyAssignment(holder) && ts.isObjectLiteralExpression(holder.parent)) {
+        const name = getIdentifier(ts, holder);
+        const outerName = getObjectLiteralName(ts, holder.parent);
+
+        return name !== undefined && outerName !== undefined
+            ? `${outerName}.${name}`
+            : name;
+    }
+
+    return undefined;
+}
+
+/**
+ * @param location Where the anonymous container starts
+ */
+export function getAnonymousNames(kind: ContainerKind, location: ColumnAndLine): QualifiedNames {
+    return {
+        qualifiedName: `<${kind}@${location.line}:${location.column}>`,
+        stableName: `<${kind}>`,
+    };
+}
+
+export function getIntroducedLocalName(ts: TypeScript, node: ts.Node): string | undefined {
     if (ts.isVariableDeclaration(node)) {
-        return getIdentifier(node);
+        return getIdentifier(ts, node);
     }
 
     if (ts.isClassDeclaration(node)) {
-        return getClassDeclarationName(node);
+        return getClassDeclarationName(ts, node);
     }
 
     if (ts.isClassExpression(node)) {
-        return getClassExpressionName(node);
+        return getClassExpressionName(ts, node);
     }
 
     if (ts.isInterfaceDeclaration(node)) {
@@ -63,7 +175,7 @@ export function getIntroducedLocalName(node: ts.Node): string | undefined {
         || ts.isFunctionDeclaration(node)
         || ts.isFunctionExpression(node)
     ) {
-        return getFunctionNodeName(node);
+        return getFunctionNodeName(ts, node);
     }
 
     if (ts.isTypeAliasDeclaration(node)) {
@@ -73,19 +185,52 @@ export function getIntroducedLocalName(node: ts.Node): string | undefined {
     return undefined;
 }
 
-export function getNameIfCalledNode(node: ts.Node): string | undefined {
+/**
+ * Like `getNameIfCalledNode`, but only for nodes that call or construct what they reference.
+ */
+export function getCalleeName(ts: TypeScript, node: ts.Node): string | undefined {
     if (ts.isCallExpression(node)) {
-        return getCalledFunctionName(node);
+        let callee = node.getChildAt(0);
+        while (ts.isParenthesizedExpression(callee)) {
+            callee = callee.getChildAt(1);
+        }
+
+        // `foo.call()` and `foo.apply()` call `foo`
+        if (isFunctionMethodAccess(ts, callee, ["apply", "call"])) {
+            return getTextWithoutBrackets(ts, callee.getChildAt(0));
+        }
+
+        return getTextWithoutBrackets(ts, callee);
+    }
+
+    if (ts.isTaggedTemplateExpression(node)) {
+        return getTextWithoutBrackets(ts, node.getChildAt(0));
     }
 
     if (ts.isNewExpression(node)) {
-        return getNewedConstructorName(node);
+        return getNewedConstructorName(ts, node);
+    }
+
+    return undefined;
+}
+
+export function getNameIfCalledNode(ts: TypeScript, node: ts.Node): string | undefined {
+    if (ts.isCallExpression(node)) {
+        return getCalledFunctionName(ts, node);
+    }
+
+    if (ts.isNewExpression(node)) {
+        return getNewedConstructorName(ts, node);
     }
 
     if (ts.isPropertyAccessExpression(node)) {
         return node.getText();
     }
 
+    if (ts.isIdentifier(node) && isUncalledReference(ts, node)) {
+        return node.getText();
+    }
+
     if (ts.isJsxOpeningLikeElement(node)) {
         return node.getChildAt(1).getText();
     }
@@ -101,7 +246,7 @@ export function getNameIfCalledNode(node: ts.Node): string | undefined {
     return undefined;
 }
 
-export function getNameOfAssignment(node: ts.Node): string | undefined {
+export function getNameOfAssignment(ts: TypeScript, node: ts.Node): string | undefined {
     if (ts.isVariableDeclaration(node)
         || ts.isPropertyDeclaration(node)
         || ts.isPropertyAssignment(node)
@@ -111,7 +256,7 @@ export function getNameOfAssignment(node: ts.Node): string | undefined {
         || ts.isEnumMember(node)
         || ts.isCallSignatureDeclaration(node)
     ) {
-        return getIdentifier(node);
+        return getIdentifier(ts, node);
     }
 
     if (ts.isTypeAliasDeclaration(node)) {
@@ -121,9 +266,9 @@ export function getNameOfAssignment(node: ts.Node): string | undefined {
     return undefined;
 }
 
-export function getExpressionToAccessObjectMember(node: ts.Node): string | undefined {
+export function getExpressionToAccessObjectMember(ts: TypeScript, node: ts.Node): string | undefined {
     if (ts.isMethodDeclaration(node)) {
-        const [name, requiresDot] = getMethodDeclarationName(node);
+        const [name, requiresDot] = getMethodDeclarationName(ts, node);
 
         if (requiresDot) {
             return "this." + name;
@@ -133,7 +278,7 @@ export function getExpressionToAccessObjectMember(node: ts.Node): string | undef
     }
 
     if (ts.isAccessor(node)) {
-        const [name, requiresDot] = getAccessorIdentifierName(node);
+        const [name, requiresDot] = getAccessorIdentifierName(ts, node);
 
         if (requiresDot) {
             return "this." + name;
@@ -148,7 +293,7 @@ export function getExpressionToAccessObjectMember(node: ts.Node): string | undef
 /**
  * @return [name, requires dot syntax]
  */
-function getAccessorIdentifierName(node: ts.Node): [string, boolean] {
+function getAccessorIdentifierName(ts: TypeScript, node: ts.Node): [string, boolean] {
     for (const child of node.getChildren()) {
         if (ts.isIdentifier(child)) {
             return [child.getText(), true];
@@ -162,42 +307,43 @@ function getAccessorIdentifierName(node: ts.Node): [string, boolean] {
     throw new UnreachableNodeState(node, "The accessor was expected to have an identifier or computed property name.");
 }
 
-function getIdentifierDespiteBrackets(node: ts.Node): string | undefined {
+function getIdentifierDespiteBrackets(ts: TypeScript, node: ts.Node): string | undefined {
     if (ts.isIdentifier(node) || ts.isElementAccessExpression(node)) {
         return node.getText();
     }
 
     if (ts.isParenthesizedExpression(node)) {
-        return getIdentifierDespiteBrackets(node.getChildAt(1));
+        return getIdentifierDespiteBrackets(ts, node.getChildAt(1));
     }
 
     return undefined;
 }
 
-function getCalledFunctionName(node: ts.CallExpression): string {
+function getCalledFunctionName(ts: TypeScript, node: ts.CallExpression): string {
     const children = node.getChildren();
     const expressionToCall = children[0];
-    const name = getIdentifierDespiteBrackets(expressionToCall);
+    const name = getIdentifierDespiteBrackets(ts, expressionToCall);
 
     return name ?? "";
 }
 
-function getClassDeclarationName(node: ts.ClassDeclaration): string {
-    const name = getIdentifier(node);
+function getClassDeclarationName(ts: TypeScript, node: ts.ClassDeclaration): string {
+    const name = getIdentifier(ts, node);
     return name ?? ""; // anonymous class
 }
 
 function getClassExpressionName(
+    ts: TypeScript,
     node: ts.ClassExpression,
     variableBeingDefined: string | undefined = undefined
 ): string | undefined {
-    return maybeGetFirstIdentifierName(node)
+    return maybeGetFirstIdentifierName(ts, node)
         ?? variableBeingDefined;
 }
 
-function getFunctionNodeName(func: FunctionNode): string | undefined {
+function getFunctionNodeName(ts: TypeScript, func: FunctionNode): string | undefined {
     if (ts.isAccessor(func)) {
-        const [name] = getAccessorIdentifierName(func);
+        const [name] = getAccessorIdentifierName(ts, func);
         return name;
     }
 
@@ -223,7 +369,7 @@ function getFunctionNodeName(func: FunctionNode): string | undefined {
     }
 
     if (ts.isMethodDeclaration(func)) {
-        const [name] = getMethodDeclarationName(func);
+        const [name] = getMethodDeclarationName(ts, func);
         return name;
     }
 
@@ -234,7 +380,7 @@ function getInterfaceDeclarationName(node: ts.InterfaceDeclaration): string {
     return node.getChildAt(1).getText();
 }
 
-function getModuleDeclarationName(node: ts.ModuleDeclaration): string {
+function getModuleDeclarationName(ts: TypeScript, node: ts.ModuleDeclaration): string {
     const moduleKeywordIndex = node.getChildren()
         .findIndex(node => node.kind === ts.SyntaxKind.NamespaceKeyword
             || node.kind === ts.SyntaxKind.ModuleKeyword);
@@ -250,7 +396,7 @@ function getModuleDeclarationName(node: ts.ModuleDeclaration): string {
 /**
  * @return [name, requires dot syntax]
  */
-function getMethodDeclarationName(node: ts.MethodDeclaration): [string, boolean] {
+function getMethodDeclarationName(ts: TypeScript, node: ts.MethodDeclaration): [string, boolean] {
     for (const child of node.getChildren()) {
         if (ts.isIdentifier(child)) {
             return [child.getText(), true];
@@ -264,15 +410,15 @@ function getMethodDeclarationName(node: ts.MethodDeclaration): [string, boolean]
     throw new UnreachableNodeState(node, "Method has no identifier.");
 }
 
-function getNewedConstructorName(node: ts.NewExpression): string {
-    return getTextWithoutBrackets(node.getChildAt(1));
+function getNewedConstructorName(ts: TypeScript, node: ts.NewExpression): string {
+    return getTextWithoutBrackets(ts, node.getChildAt(1));
 }
 
 function getTypeAliasName(node: ts.TypeAliasDeclaration): string {
     return node.getChildAt(1).getText();
 }
 
-function maybeGetFirstIdentifierName(node: ts.Node): string | undefined {
+function maybeGetFirstIdentifierName(ts: TypeScript, node: ts.Node): string | undefined {
     const name = node.getChildren()
         .find(child => ts.isIdentifier(child));
 
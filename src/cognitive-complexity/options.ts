@@ -0,0 +1,157 @@
+/**
+ * Purpose: describe the ways an analysis can be configured.
+ */
+
+import { ThresholdName } from "../../shared/types";
+import { NestedFunctionDepth } from "./depth";
+import { ScoringProfileName } from "./profiles";
+import { ScriptKindName } from "./script-kinds";
+
+export interface Options {
+    /**
+     * Whether to output the list of increments
+     * that explain the score of each file and container.
+     */
+    increments: boolean;
+
+    /**
+     * The name of the set of scoring rules to use.
+     */
+    profile: ScoringProfileName;
+
+    /**
+     * Whether to use the TypeScript type checker to find recursion.
+     * A reference is only recursive when the symbol it refers to
+     * is a function, class, or type that encloses the reference.
+     * Otherwise references are compared to enclosing names by their text.
+     */
+    typeChecker: boolean;
+
+    /**
+     * Whether to find cycles of functions, classes, and types
+     * that recurse through each other within a file, e.g. `a -> b -> a`.
+     * Each container in a cycle gets an increment.
+     */
+    mutualRecursion: boolean;
+
+    /**
+     * Whether to score conditional rendering in JSX, e.g. `{cond && <A/>}`,
+     * and `.map` render callbacks in JSX, e.g. `{items.map(item => <li/>)}`,
+     * as nesting structures, whichever profile is used.
+     */
+    jsx: boolean;
+
+    /**
+     * Whether to score promise chains as control flow, whichever profile is used.
+     * A `.catch` call is scored like a `catch` clause,
+     * and the arguments of each `.then` in a chain are a level deeper
+     * for each `.then` before it.
+     */
+    promiseChains: boolean;
+
+    /**
+     * Whether to score the patterns of regular expression literals and of `RegExp("...")`,
+     * whichever profile is used.
+     * Each alternation, nested group, lookaround and backreference adds to the score.
+     */
+    regex: boolean;
+
+    /**
+     * Where the body of a function or class static block inside other code is, e.g. a callback in a loop.
+     * `add` puts it a level below the function, which is what Sonar does,
+     * `inherit` puts it at the depth of the function,
+     * and `reset` puts it at depth 0, as if the function were at the top level of the file.
+     */
+    nestedFunctionDepth: NestedFunctionDepth;
+
+    /**
+     * Whether to output the McCabe cyclomatic complexity of each file and container.
+     */
+    cyclomatic: boolean;
+
+    /**
+     * Whether to output the Halstead volume, difficulty, and effort of each container.
+     */
+    halstead: boolean;
+
+    /**
+     * The highest each metric can be before a file or container is output as exceeding it.
+     * A metric without a threshold is never exceeded.
+     */
+    thresholds: Partial<Record<ThresholdName, number>>;
+
+    /**
+     * Whether to keep analysing the other files and folders
+     * when a file or folder can not be read or analysed, including the one being analysed.
+     * The errors are collected instead of thrown.
+     */
+    tolerant: boolean;
+
+    /**
+     * Whether to output the syntax errors of each file that has them.
+     */
+    syntaxDiagnostics: boolean;
+
+    /**
+     * Whether to not score files that have syntax errors.
+     * They are output with a score of 0 and their syntax diagnostics.
+     */
+    skipSyntaxErrors: boolean;
+
+    /**
+     * The file extensions to analyse as well as the default ones,
+     * and how to parse the files that have them, e.g. `{ ".es6": "js" }`.
+     * The defaults are `.ts`, `.tsx`, `.mts`, `.cts`, `.js`, `.jsx`, `.mjs`, and `.cjs`,
+     * and can be given a different kind.
+     */
+    extensions: Record<string, ScriptKindName>;
+
+    /**
+     * Whether to analyse the inline scripts of `.html` and `.htm` files.
+     * Each `<script>` element is scored as a container.
+     */
+    html: boolean;
+
+    /**
+     * The path to the TypeScript module to parse code with, or the name of one,
+     * which is resolved from the working directory.
+     * This lets code be parsed by a newer TypeScript than the one this package depends on.
+     * Undefined uses the TypeScript that this package depends on.
+     */
+    typescript: string | undefined;
+}
+
+export const defaultOptions: Readonly<Options> = {
+    increments: false,
+    profile: "ccts-default",
+    typeChecker: false,
+    mutualRecursion: false,
+    jsx: false,
+    promiseChains: false,
+    regex: false,
+    nestedFunctionDepth: "add",
+    cyclomatic: false,
+    halstead: false,
+    thresholds: {},
+    tolerant: false,
+    syntaxDiagnostics: false,
+    skipSyntaxErrors: false,
+    extensions: {},
+    html: false,
+    typescript: undefined,
+};
+
+/**
+ * Fill in any options not given with their default value.
+ * An option given as undefined is not given.
+ */
+export function withDefaultOptions(options: Partial<Options> = {}): Options {
+    const givenOptions = Object.fromEntries(
+        Object.entries(options).filter(([, value]) => value !== undefined)
+    );
+
+    return {
+        ...defaultOptions,
+        ...givenOptions,
+    };
+}
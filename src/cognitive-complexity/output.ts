@@ -2,60 +2,166 @@
  * Functions to apply Cognitive Complexity to files and folders.
  */
 
-import { Dirent, promises as fsP } from "fs";
+import { Dirent, promises as fsP, Stats } from "fs";
 import * as path from "path";
-import * as ts from "typescript";
-import { FileOutput, FolderOutput, ProgramOutput } from "../../shared/types";
+import { AnalysisError, FileOutput, FolderOutput, ProgramOutput, TolerantProgramOutput } from "../../shared/types";
+import { UnreachableNodeState } from "../util/node-util";
 import { createObjectOfPromisedValues } from "../util/util";
 import { fileCost } from "./cognitive-complexity";
+import { Options, withDefaultOptions } from "./options";
+import { getScriptKind, scriptKinds } from "./script-kinds";
+import { extractScripts, getScriptExtractor } from "./extractors";
+import { loadTypeScript } from "./compiler";
 
 // API
 /**
  * @param entry A file system entry path
  */
-export async function getFileOrFolderOutput(entryPath: string): Promise<FileOutput | FolderOutput> {
-    const entry = await fsP.stat(entryPath);
+export async function getFileOrFolderOutput(
+    entryPath: string,
+    options?: Partial<Options> & { tolerant?: false },
+): Promise<FileOutput | FolderOutput>;
+/**
+ * @param entry A file system entry path
+ * @param errors Where the errors from the entry, and the files and folders inside it, are collected
+ * when the options are tolerant
+ * @returns undefined when the entry can not be analysed and the error is collected
+ */
+export async function getFileOrFolderOutput(
+    entryPath: string,
+    options: Partial<Options>,
+    errors: AnalysisError[],
+): Promise<FileOutput | FolderOutput | undefined>;
+export async function getFileOrFolderOutput(
+    entryPath: string,
+    options: Partial<Options> = {},
+    errors: AnalysisError[] = [],
+): Promise<FileOutput | FolderOutput | undefined> {
+    let entry: Stats;
+    try {
+        entry = await fsP.stat(entryPath);
+    } catch (error) {
+        return collectError(error, entryPath, options, errors);
+    }
 
     if (entry.isDirectory()) {
-        return getFolderOutput(entryPath);
+        return getFolderOutput(entryPath, options, errors);
     } else {
-        return getFileOutput(entryPath);
+        return fileOutput(entryPath, path.basename(entryPath), options, errors);
     }
 }
 
 // API
-export async function getFileOutput(filePath: string): Promise<FileOutput> {
+export async function getFileOutput(filePath: string, options: Partial<Options> = {}): Promise<FileOutput> {
     const fileContent = (await fsP.readFile(filePath)).toString();
-    return getSourceOutput(fileContent, path.basename(filePath));
+    return getSourceOutput(fileContent, path.basename(filePath), options);
+}
+
+/**
+ * @param outputPath The path to the file from the parent of the entry being analysed,
+ * which is the same wherever the analysis is run from
+ * @returns undefined when the file can not be analysed and the error is collected
+ */
+async function fileOutput(
+    filePath: string,
+    outputPath: string,
+    options: Partial<Options>,
+    errors: AnalysisError[],
+): Promise<FileOutput | undefined> {
+    try {
+        const fileContent = (await fsP.readFile(filePath)).toString();
+        return getSourceOutput(fileContent, outputPath, options);
+    } catch (error) {
+        return collectError(error, filePath, options, errors);
+    }
 }
 
 // API
-export function getSourceOutput(sourceCode: string, fileName = ""): FileOutput {
+/**
+ * @param fileName Its extension decides how the source code is parsed.
+ * Only the scripts are parsed from files that have scripts inside them, like `.vue` and `.svelte` files,
+ * and `.html` files when the options allow it.
+ * Source code without a known extension is parsed as TypeScript.
+ */
+export function getSourceOutput(
+    sourceCode: string,
+    fileName = "",
+    options: Partial<Options> = {},
+): FileOutput {
+    const fullOptions = withDefaultOptions(options);
+
+    const ts = loadTypeScript(fullOptions.typescript);
+
+    const extractor = getScriptExtractor(fileName, fullOptions);
+    const blocks = extractor?.extract(sourceCode);
+    const script = blocks !== undefined
+        ? extractScripts(sourceCode, blocks)
+        : {
+            sourceCode,
+            scriptKind: getScriptKind(fileName, fullOptions.extensions) ?? scriptKinds.ts,
+        };
+
     const parsedFile = ts.createSourceFile(
         fileName,
-        sourceCode,
+        script.sourceCode,
         ts.ScriptTarget.Latest,
         true,
+        script.scriptKind,
     );
 
-    return fileCost(parsedFile);
+    return fileCost(ts, parsedFile, fullOptions, extractor?.blocksAreContainers ? blocks : undefined);
 }
 
 // API
-export async function getFolderOutput(folderPath: string): Promise<FolderOutput> {
-    const folderContents = await fsP.readdir(folderPath, { withFileTypes: true });
+export async function getFolderOutput(
+    folderPath: string,
+    options?: Partial<Options> & { tolerant?: false },
+): Promise<FolderOutput>;
+/**
+ * @param errors Where the errors from the folder, and the files and folders inside it, are collected
+ * when the options are tolerant
+ */
+export async function getFolderOutput(
+    folderPath: string,
+    options: Partial<Options>,
+    errors: AnalysisError[],
+): Promise<FolderOutput>;
+export async function getFolderOutput(
+    folderPath: string,
+    options: Partial<Options> = {},
+    errors: AnalysisError[] = [],
+): Promise<FolderOutput> {
+    const output = await folderOutput(folderPath, path.basename(folderPath), options, errors);
+    return output ?? {};
+}
+
+/**
+ * @param outputPath The path to the folder from the parent of the entry being analysed
+ * @returns undefined when the folder can not be read and the error is collected
+ */
+async function folderOutput(
+    folderPath: string,
+    outputPath: string,
+    options: Partial<Options>,
+    errors: AnalysisError[],
+): Promise<FolderOutput | undefined> {
+    let folderContents: Dirent[];
+    try {
+        folderContents = await fsP.readdir(folderPath, { withFileTypes: true });
+    } catch (error) {
+        return collectError(error, folderPath, options, errors);
+    }
 
     return createObjectOfPromisedValues<Dirent, string, FileOutput | FolderOutput>(
         folderContents,
         entry => entry.name,
         (entry) => {
             if (entry.isDirectory()) {
-                return getFolderOutput(folderPath + "/" + entry.name);
+                return folderOutput(folderPath + "/" + entry.name, outputPath + "/" + entry.name, options, errors);
             }
 
-            // correct extension
-            if (entry.name.match(/.*\.[tj]sx?$/) !== null) {
-                return getFileOutput(folderPath + "/" + entry.name);
+            if (isAnalysedFile(entry.name, options)) {
+                return fileOutput(folderPath + "/" + entry.name, outputPath + "/" + entry.name, options, errors);
             }
 
             return undefined;
@@ -63,20 +169,64 @@ export async function getFolderOutput(folderPath: string): Promise<FolderOutput>
     );
 }
 
+function isAnalysedFile(fileName: string, options: Partial<Options>): boolean {
+    const fullOptions = withDefaultOptions(options);
+
+    return getScriptExtractor(fileName, fullOptions) !== undefined
+        || getScriptKind(fileName, fullOptions.extensions) !== undefined;
+}
+
+/**
+ * Collects the error when the options are tolerant, otherwise throws it.
+ */
+function collectError(
+    error: unknown,
+    filePath: string,
+    options: Partial<Options>,
+    errors: AnalysisError[],
+): undefined {
+    if (!options.tolerant) {
+        throw error;
+    }
+
+    errors.push({
+        filePath,
+        message: error instanceof Error ? error.message : String(error),
+        ...(error instanceof UnreachableNodeState ? error.location : {}),
+    });
+
+    return undefined;
+}
+
 // API
 /**
  * @param entryPath Relative to cwd
+ * @returns the JSON of a `ProgramOutput`,
+ * or of a `TolerantProgramOutput` when the options are tolerant
  */
-export async function programOutput(entryPath: string): Promise<string> {
+export async function programOutput(
+    entryPath: string,
+    options: Partial<Options> = {},
+): Promise<string> {
     const entryName = path.parse(entryPath).base;
+    const errors: AnalysisError[] = [];
+
+    const entryOutput = await getFileOrFolderOutput(entryPath, options, errors);
+    const resultForAllFiles: ProgramOutput = entryOutput !== undefined
+        ? { [entryName]: entryOutput }
+        : {};
+
+    // sorted, because the files in a folder are analysed concurrently
+    errors.sort((a, b) => a.filePath.localeCompare(b.filePath));
 
-    const resultForAllFiles: ProgramOutput = {
-        [entryName]: await getFileOrFolderOutput(entryPath)
-    };
+    // errors are only output when they are collected
+    const result: ProgramOutput | TolerantProgramOutput = options.tolerant
+        ? { output: resultForAllFiles, errors }
+        : resultForAllFiles;
 
-    return JSON.stringify(resultForAllFiles, (key, value) => {
-        // don't show empty inner
-        if (key === "inner" && value.length === 0) {
+    return JSON.stringify(result, (key, value) => {
+        // don't show empty inner or increments
+        if ((key === "inner" || key === "increments") && value.length === 0) {
             return undefined;
         }
 
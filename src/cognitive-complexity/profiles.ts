@@ -0,0 +1,76 @@
+/**
+ * Purpose: define the named sets of scoring rules that an analysis can use.
+ */
+
+export interface ScoringProfile {
+    /**
+     * Whether conditional types, mapped types, unions and intersections
+     * carry inherent and nesting increments.
+     */
+    typeOperators: boolean;
+
+    /**
+     * Whether any reference to an enclosing function, class or type is recursion.
+     * Otherwise only calls and constructions are.
+     */
+    recursiveReferences: boolean;
+
+    /**
+     * Whether conditional rendering and `.map` render callbacks in JSX
+     * carry inherent and nesting increments,
+     * and whether conditionally rendered JSX is a level deeper.
+     */
+    jsx: boolean;
+
+    /**
+     * Whether `.catch` callbacks of promises carry the increments of a `catch` clause,
+     * and whether each `.then` in a chain is a level deeper than the one before.
+     */
+    promiseChains: boolean;
+
+    /**
+     * Whether regular expressions carry an inherent increment
+     * for their alternations, nested groups, lookarounds and backreferences.
+     */
+    regex: boolean;
+}
+
+export const scoringProfiles = {
+    /**
+     * The rules described in the README,
+     * which extend the Cognitive Complexity whitepaper to cover TypeScript.
+     */
+    "ccts-default": {
+        typeOperators: true,
+        recursiveReferences: true,
+        jsx: false,
+        promiseChains: false,
+        regex: false,
+    },
+
+    /**
+     * The rules of the Cognitive Complexity whitepaper by Sonar Source.
+     */
+    "sonar": {
+        typeOperators: false,
+        recursiveReferences: false,
+        jsx: false,
+        promiseChains: false,
+        regex: false,
+    },
+};
+
+export type ScoringProfileName = keyof typeof scoringProfiles;
+
+export function isScoringProfileName(name: string): name is ScoringProfileName {
+    return scoringProfiles.hasOwnProperty(name);
+}
+
+export function getScoringProfile(name: string): ScoringProfile {
+    if (!isScoringProfileName(name)) {
+        const known = Object.keys(scoringProfiles).join(", ");
+        throw new Error(`Unknown scoring profile "${name}". Expected one of: ${known}.`);
+    }
+
+    return scoringProfiles[name];
+}
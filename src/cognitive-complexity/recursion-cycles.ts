@@ -0,0 +1,206 @@
+/**
+ * Purpose: find functions, classes, and types that recurse through each other,
+ * e.g. `a` refers to `b`, which refers to `a`.
+ */
+
+import type * as ts from "typescript";
+import { TypeScript } from "./compiler";
+import { stronglyConnectedComponents } from "../util/util";
+import { getIdentifier, isAncestor, isFunctionNode } from "./node-inspection";
+import {
+    chooseContainerName,
+    getCalleeName,
+    getExpressionToAccessObjectMember,
+    getIntroducedLocalName,
+    getNameIfCalledNode
+} from "./node-naming";
+import { ScoringProfile } from "./profiles";
+import { getReferencedContainers } from "./symbols";
+
+/**
+ * Maps each container in a cycle to the names of all containers in its cycle.
+ */
+export type RecursionCycles = Map<ts.Node, string[]>;
+
+/**
+ * @param checker Used to find what is referenced if given,
+ * otherwise references are matched to containers by name.
+ */
+export function findRecursionCycles(
+    ts: TypeScript,
+    file: ts.SourceFile,
+    profile: ScoringProfile,
+    checker: ts.TypeChecker | undefined,
+): RecursionCycles {
+    const containers = [] as ts.Node[];
+    collectContainers(ts, file, containers);
+
+    const findReferenced = checker !== undefined
+        ? (node: ts.Node) => getReferencedContainers(ts, node, checker, !profile.recursiveReferences)
+        : createNameResolver(ts, containers, profile);
+
+    const references = new Map<ts.Node, Set<ts.Node>>();
+    for (const container of containers) {
+        references.set(container, new Set());
+    }
+    collectReferences(ts, file, [], references, findReferenced);
+
+    const cycles: RecursionCycles = new Map();
+
+    const components = stronglyConnectedComponents(containers, container => references.get(container)!);
+    for (const component of components) {
+        // a container that only refers to itself is scored as recursion already
+        if (component.length > 1) {
+            const names = component
+                .sort((left, right) => left.getStart() - right.getStart())
+                .map(container => getContainerName(ts, container));
+
+            for (const container of component) {
+                cycles.set(container, names);
+            }
+        }
+    }
+
+    return cycles;
+}
+
+function collectContainers(ts: TypeScript, node: ts.Node, containers: ts.Node[]) {
+    if (isReferenceableContainer(ts, node)) {
+        containers.push(node);
+    }
+
+    for (const child of node.getChildren()) {
+        collectContainers(ts, child, containers);
+    }
+}
+
+/**
+ * @param containers The containers that the references in the node are made by:
+ * the innermost container that the node is in,
+ * and the containers that an anonymous innermost container is in, up to a named one
+ * @param references The containers referenced by each container
+ */
+function collectReferences(
+    ts: TypeScript,
+    node: ts.Node,
+    containers: ts.Node[],
+    references: Map<ts.Node, Set<ts.Node>>,
+    findReferenced: (node: ts.Node) => ts.Node[],
+) {
+    if (containers.length > 0) {
+        const referencedContainers = findReferenced(node);
+
+        for (const container of containers) {
+            for (const referenced of referencedContainers) {
+                // references to enclosing containers are scored as recursion already
+                if (referenced !== container && !isAncestor(referenced, container)) {
+                    references.get(container)?.add(referenced);
+                }
+            }
+        }
+    }
+
+    // e.g. a callback calls what the function that it is given in calls
+    const childContainers = !isReferenceableContainer(ts, node)
+        ? containers
+        : getContainerName(ts, node) === ""
+            ? [node, ...containers]
+            : [node];
+
+    for (const child of node.getChildren()) {
+        collectReferences(ts, child, childContainers, references, findReferenced);
+    }
+}
+
+function createNameResolver(ts: TypeScript, containers: ts.Node[], profile: ScoringProfile): (node: ts.Node) => ts.Node[] {
+    const containersByName = new Map<string, ts.Node[]>();
+
+    for (const container of containers) {
+        for (const name of getNamesToReference(ts, container)) {
+            const containersWithName = containersByName.get(name) ?? [];
+            containersWithName.push(container);
+            containersByName.set(name, containersWithName);
+        }
+    }
+
+    return (node) => {
+        const name = profile.recursiveReferences
+            ? getNameIfCalledNode(ts, node)
+            : getCalleeName(ts, node);
+
+        const referenced = name !== undefined
+            ? containersByName.get(name) ?? []
+            : [];
+
+        // `this` refers to the members of the class that it is in
+        const inScope = referenced.filter(container =>
+            getExpressionToAccessObjectMember(ts, container) !== name
+            || container.parent === getEnclosingObject(ts, node));
+
+        // a name shared by multiple containers can't be resolved
+        return inScope.length === 1
+            ? inScope
+            : [];
+    };
+}
+
+/**
+ * @returns the innermost class or object literal that the node is in
+ */
+function getEnclosingObject(ts: TypeScript, node: ts.Node): ts.Node | undefined {
+    for (let current = node.parent; current !== undefined; current = current.parent) {
+        if (ts.isClassLike(current) || ts.isObjectLiteralExpression(current)) {
+            return current;
+        }
+    }
+
+    return undefined;
+}
+
+function getContainerName(ts: TypeScript, container: ts.Node): string {
+    return chooseContainerName(ts, container, getVariableName(ts, container)) ?? "";
+}
+
+function getNamesToReference(ts: TypeScript, container: ts.Node): Set<string> {
+    const names = new Set<string>();
+
+    const localName = getIntroducedLocalName(ts, container);
+    if (localName !== undefined) {
+        names.add(localName);
+    }
+
+    const memberName = getExpressionToAccessObjectMember(ts, container);
+    if (memberName !== undefined) {
+        names.add(memberName);
+    }
+
+    const variableName = getVariableName(ts, container);
+    if (variableName !== undefined) {
+        names.add(variableName);
+    }
+
+    return names;
+}
+
+/**
+ * @returns the name of the variable the container is directly assigned to, if there is one
+ */
+function getVariableName(ts: TypeScript, container: ts.Node): string | undefined {
+    let parent = container.parent;
+    while (ts.isParenthesizedExpression(parent)) {
+        parent = parent.parent;
+    }
+
+    if (ts.isVariableDeclaration(parent)) {
+        return getIdentifier(ts, parent);
+    }
+
+    return undefined;
+}
+
+function isReferenceableContainer(ts: TypeScript, node: ts.Node): boolean {
+    return isFunctionNode(ts, node)
+        || ts.isClassLike(node)
+        || ts.isInterfaceDeclaration(node)
+        || ts.isTypeAliasDeclaration(node);
+}
@@ -0,0 +1,160 @@
+/**
+ * Purpose: measure how hard the pattern of a regular expression is to read.
+ */
+
+import type * as ts from "typescript";
+import { TypeScript } from "./compiler";
+
+/**
+ * What makes a regular expression pattern complex.
+ */
+export interface RegexComplexity {
+    /**
+     * The number of groups, including the whole pattern, that have alternatives,
+     * e.g. 1 for `a|b|c`.
+     */
+    alternations: number;
+
+    /**
+     * The number of groups inside other groups.
+     */
+    nestedGroups: number;
+
+    /**
+     * The sum of the depths of the groups inside other groups,
+     * e.g. 3 for `((a(b)))`.
+     */
+    groupNesting: number;
+
+    /**
+     * The number of lookaheads and lookbehinds, e.g. `(?=a)` and `(?<!a)`.
+     */
+    lookarounds: number;
+
+    /**
+     * The number of references to groups, e.g. `\1` and `\k<name>`.
+     */
+    backreferences: number;
+}
+
+/**
+ * @returns the pattern of a regular expression literal,
+ * or the pattern given as a string to `RegExp`, e.g. `new RegExp("a|b")`.
+ * Undefined if the node is neither.
+ */
+export function getRegexPattern(ts: TypeScript, node: ts.Node): string | undefined {
+    if (ts.isRegularExpressionLiteral(node)) {
+        const text = node.getText();
+        return text.slice(1, text.lastIndexOf("/"));
+    }
+
+    if ((ts.isNewExpression(node) || ts.isCallExpression(node))
+        && ts.isIdentifier(node.expression)
+        && node.expression.text === "RegExp"
+    ) {
+        const pattern = node.arguments?.[0];
+        if (pattern !== undefined && ts.isStringLiteralLike(pattern)) {
+            return pattern.text;
+        }
+    }
+
+    return undefined;
+}
+
+export function measureRegex(pattern: string): RegexComplexity {
+    const complexity: RegexComplexity = {
+        alternations: 0,
+        nestedGroups: 0,
+        groupNesting: 0,
+        lookarounds: 0,
+        backreferences: 0,
+    };
+
+    // whether each open group has alternatives, starting with the whole pattern
+    const hasAlternatives = [false];
+
+    let i = 0;
+    while (i < pattern.length) {
+        const char = pattern[i];
+
+        if (char === "\\") {
+            const reference = pattern.slice(i + 1).match(/^([1-9]\d*|k<[^>]*>)/);
+            if (reference !== null) {
+                complexity.backreferences += 1;
+                i += 1 + reference[0].length;
+            } else {
+                // the escaped character
+                i += 2;
+            }
+        } else if (char === "[") {
+            i = endOfCharacterClass(pattern, i);
+        } else if (char === "(") {
+            const depth = hasAlternatives.length - 1;
+            if (depth > 0) {
+                complexity.nestedGroups += 1;
+                complexity.groupNesting += depth;
+            }
+
+            if (/^\(\?(=|!|<=|<!)/.test(pattern.slice(i))) {
+                complexity.lookarounds += 1;
+            }
+
+            hasAlternatives.push(false);
+            i += 1;
+        } else if (char === ")") {
+            // an unmatched bracket does not close the whole pattern
+            if (hasAlternatives.length > 1 && hasAlternatives.pop()) {
+                complexity.alternations += 1;
+            }
+            i += 1;
+        } else {
+            if (char === "|") {
+                hasAlternatives[hasAlternatives.length - 1] = true;
+            }
+            i += 1;
+        }
+    }
+
+    // the whole pattern, and any groups that are not closed
+    complexity.alternations += hasAlternatives.filter(alternatives => alternatives).length;
+
+    return complexity;
+}
+
+export function regexScore(complexity: RegexComplexity): number {
+    return complexity.alternations
+        + complexity.groupNesting
+        + complexity.lookarounds
+        + complexity.backreferences;
+}
+
+/**
+ * @returns e.g. "regular expression with 2 alternations, 1 nested group"
+ */
+export function describeRegex(complexity: RegexComplexity): string {
+    const parts = [
+        [complexity.alternations, "alternation"],
+        [complexity.nestedGroups, "nested group"],
+        [complexity.lookarounds, "lookaround"],
+        [complexity.backreferences, "backreference"],
+    ] as const;
+
+    const described = parts
+        .filter(([count]) => count > 0)
+        .map(([count, name]) => `${count} ${name}${count === 1 ? "" : "s"}`);
+
+    return `regular expression with ${described.join(", ")}`;
+}
+
+/**
+ * @param start The index of the `[` that starts the character class
+ * @returns the index after the `]` that ends the character class
+ */
+function endOfCharacterClass(pattern: string, start: number): number {
+    let i = start + 1;
+    while (i < pattern.length && pattern[i] !== "]") {
+        i += pattern[i] === "\\" ? 2 : 1;
+    }
+
+    return i + 1;
+}
@@ -0,0 +1,53 @@
+/**
+ * Purpose: decide which files are analysed, and how they are parsed, by their extension.
+ */
+
+// unlike the kinds of node, the kinds of script are numbered the same in every version of TypeScript
+import { ScriptKind } from "typescript";
+
+export const scriptKinds = {
+    js: ScriptKind.JS,
+    jsx: ScriptKind.JSX,
+    ts: ScriptKind.TS,
+    tsx: ScriptKind.TSX,
+};
+
+export type ScriptKindName = keyof typeof scriptKinds;
+
+/**
+ * The extensions that are always analysed.
+ */
+export const defaultExtensions: Readonly<Record<string, ScriptKindName>> = {
+    ".cjs": "js",
+    ".cts": "ts",
+    ".js": "js",
+    ".jsx": "jsx",
+    ".mjs": "js",
+    ".mts": "ts",
+    ".ts": "ts",
+    ".tsx": "tsx",
+};
+
+export function isScriptKindName(name: string): name is ScriptKindName {
+    return scriptKinds.hasOwnProperty(name);
+}
+
+/**
+ * @param extensions The extensions to analyse as well as the default ones
+ * @returns undefined when the file should not be analysed
+ */
+export function getScriptKind(
+    fileName: string,
+    extensions: Readonly<Record<string, ScriptKindName>>,
+): ScriptKind | undefined {
+    const allExtensions = { ...defaultExtensions, ...extensions };
+
+    // the longest extension is the most specific, e.g. `.d.ts` rather than `.ts`
+    const extension = Object.keys(allExtensions)
+        .filter(extension => fileName.endsWith(extension))
+        .sort((left, right) => right.length - left.length)[0];
+
+    return extension !== undefined
+        ? scriptKinds[allExtensions[extension]]
+        : undefined;
+}
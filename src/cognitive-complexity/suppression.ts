@@ -0,0 +1,96 @@
+/**
+ * Purpose: find the code that has been marked as having accepted complexity.
+ *
+ * `// ccts-ignore-next-line` removes the increments on the line after it.
+ * `// ccts-disable` and `// ccts-enable` remove the increments on the lines between them.
+ * `/** @ccts-ignore *\/` on a function, class, namespace, or type flags it as suppressed.
+ */
+
+import type * as ts from "typescript";
+import { TypeScript } from "./compiler";
+
+const suppressionCommentPattern = /^(?:\/\/|\/\*)\s*ccts-(ignore-next-line|disable|enable)\b/;
+
+/**
+ * @returns the lines whose increments should be removed, numbered from 1
+ */
+export function findSuppressedLines(ts: TypeScript, file: ts.SourceFile): Set<number> {
+    const suppressedLines = new Set<number>();
+
+    let disabledFromLine: number | undefined = undefined;
+
+    for (const comment of getComments(ts, file)) {
+        const match = file.text
+            .slice(comment.pos, comment.end)
+            .match(suppressionCommentPattern);
+
+        if (match === null) {
+            continue;
+        }
+
+        const line = file.getLineAndCharacterOfPosition(comment.pos).line + 1;
+        const directive = match[1];
+
+        if (directive === "ignore-next-line") {
+            suppressedLines.add(line + 1);
+        } else if (directive === "disable") {
+            disabledFromLine ??= line;
+        } else if (disabledFromLine !== undefined) {
+            addLines(suppressedLines, disabledFromLine, line);
+            disabledFromLine = undefined;
+        }
+    }
+
+    // a region that is never enabled again lasts until the end of the file
+    if (disabledFromLine !== undefined) {
+        const lastLine = file.getLineAndCharacterOfPosition(file.end).line + 1;
+        addLines(suppressedLines, disabledFromLine, lastLine);
+    }
+
+    return suppressedLines;
+}
+
+/**
+ * Whether the node has a `@ccts-ignore` JSDoc tag.
+ */
+export function hasIgnoreTag(ts: TypeScript, node: ts.Node): boolean {
+    return ts.getJSDocTags(node)
+        .some(tag => tag.tagName.text === "ccts-ignore");
+}
+
+function addLines(lines: Set<number>, from: number, to: number) {
+    for (let line = from; line <= to; line++) {
+        lines.add(line);
+    }
+}
+
+/**
+ * @returns every comment in the file, in the order they are written
+ */
+function getComments(ts: TypeScript, file: ts.SourceFile): ts.CommentRange[] {
+    const commentsByPos = new Map<number, ts.CommentRange>();
+
+    // every comment is in the trivia before a token
+    function visit(node: ts.Node) {
+        if (ts.isJSDoc(node)) {
+            return;
+        }
+
+        const children = node.getChildren();
+        if (children.length === 0) {
+            const comments = ts.getLeadingCommentRanges(file.text, node.getFullStart()) ?? [];
+            for (const comment of comments) {
+                commentsByPos.set(comment.pos, comment);
+            }
+        }
+
+        for (const child of children) {
+            visit(child);
+        }
+    }
+
+    visit(file);
+
+    return [...commentsByPos.values()]
+        .sort((left, right) => left.pos - right.pos);
+}
@@ -0,0 +1,154 @@
+/**
+ * Purpose: find recursion by resolving what identifiers refer to,
+ * rather than by comparing their names to the names in scope.
+ */
+
+import type * as ts from "typescript";
+import { TypeScript } from "./compiler";
+import { isAncestor, isFunctionMethodAccess, isFunctionNode, skipParentheses } from "./node-inspection";
+
+/**
+ * Creates a program that contains only the given file, without reading any others,
+ * so that the type checker can resolve the symbols declared within it.
+ */
+export function createSingleFileProgram(ts: TypeScript, sourceFile: ts.SourceFile): ts.Program {
+    const compilerOptions: ts.CompilerOptions = {
+        allowJs: true,
+        jsx: ts.JsxEmit.Preserve,
+        noLib: true,
+        noResolve: true,
+        // lets `this` in an object literal refer to the object
+        noImplicitThis: true,
+        // the file was parsed according to its extension in the options,
+        // which may not be one that TypeScript knows
+        allowNonTsExtensions: true,
+    };
+
+    // a program can not have a file without a name
+    const rootName = sourceFile.fileName !== ""
+        ? sourceFile.fileName
+        : "source.ts";
+
+    const host: ts.CompilerHost = {
+        fileExists: fileName => fileName === rootName,
+        getCanonicalFileName: fileName => fileName,
+        getCurrentDirectory: () => "",
+        getDefaultLibFileName: () => "lib.d.ts",
+        getNewLine: () => "\n",
+        getSourceFile: fileName => fileName === rootName ? sourceFile : undefined,
+        readFile: () => undefined,
+        useCaseSensitiveFileNames: () => true,
+        writeFile: () => {},
+    };
+
+    return ts.createProgram([rootName], compilerOptions, host);
+}
+
+/**
+ * @param node The node that might be a recursive reference
+ * @param onlyCalls Whether the reference must be called or constructed to count
+ * @returns whether the node refers to a function, class, or type that it is inside of
+ */
+export function isRecursiveReference(ts: TypeScript, node: ts.Node, checker: ts.TypeChecker, onlyCalls: boolean): boolean {
+    return getReferencedContainers(ts, node, checker, onlyCalls)
+        .some(container => isAncestor(container, node));
+}
+
+/**
+ * @param node The node that might be a reference
+ * @param onlyCalls Whether the reference must be called or constructed to count
+ * @returns the functions, classes, and types that the node refers to
+ */
+export function getReferencedContainers(ts: TypeScript, node: ts.Node, checker: ts.TypeChecker, onlyCalls: boolean): ts.Node[] {
+    if (!ts.isIdentifier(node)) {
+        return [];
+    }
+
+    if (onlyCalls && !isCallee(ts, node)) {
+        return [];
+    }
+
+    // a JSX element is only counted once, by its opening tag
+    if (ts.isJsxClosingElement(node.parent)) {
+        return [];
+    }
+
+    const symbol = checker.getSymbolAtLocation(node);
+    if (symbol?.declarations === undefined) {
+        return [];
+    }
+
+    // the name given to something in its declaration is not a reference to it
+    const isDeclarationName = symbol.declarations
+        .some(declaration => (declaration as ts.NamedDeclaration).name === node);
+    if (isDeclarationName) {
+        return [];
+    }
+
+    return symbol.declarations
+        .flatMap(declaration => getDeclaredContainers(ts, declaration, checker, new Set()));
+}
+
+/**
+ * @param seen The declarations already visited while following aliases
+ */
+function getDeclaredContainers(ts: TypeScript, declaration: ts.Declaration, checker: ts.TypeChecker, seen: Set<ts.Node>): ts.Node[] {
+    if (seen.has(declaration)) {
+        return [];
+    }
+    seen.add(declaration);
+
+    if (isFunctionNode(ts, declaration)
+        || ts.isClassLike(declaration)
+        || ts.isInterfaceDeclaration(declaration)
+        || ts.isTypeAliasDeclaration(declaration)
+    ) {
+        return [declaration];
+    }
+
+    // a variable or property can be given a function or class,
+    // or be an alias of something else
+    if ((ts.isVariableDeclaration(declaration) || ts.isPropertyAssignment(declaration))
+        && declaration.initializer !== undefined
+    ) {
+        const value = skipParentheses(ts, declaration.initializer);
+
+        if (isFunctionNode(ts, value) || ts.isClassExpression(value)) {
+            return [value];
+        }
+
+        if (ts.isIdentifier(value)) {
+            const aliasedSymbol = checker.getSymbolAtLocation(value);
+            return (aliasedSymbol?.declarations ?? [])
+                .flatMap(aliased => getDeclaredContainers(ts, aliased, checker, seen));
+        }
+    }
+
+    return [];
+}
+
+/**
+ * Whether the identifier is the function called in a call,
+ * the constructor in a `new` expression, or the tag of a tagged template.
+ * This includes functions called by `foo.call()` and `foo.apply()`.
+ */
+function isCallee(ts: TypeScript, identifier: ts.Identifier): boolean {
+    let callee: ts.Node = identifier;
+
+    if (ts.isPropertyAccessExpression(callee.parent) && callee.parent.name === callee) {
+        callee = callee.parent;
+    }
+
+    if (isFunctionMethodAccess(ts, callee.parent, ["apply", "call"]) && callee.parent.expression === callee) {
+        callee = callee.parent;
+    }
+
+    while (ts.isParenthesizedExpression(callee.parent)) {
+        callee = callee.parent;
+    }
+
+    const parent = callee.parent;
+
+    return ((ts.isCallExpression(parent) || ts.isNewExpression(parent)) && parent.expression === callee)
+        || (ts.isTaggedTemplateExpression(parent) && parent.tag === callee);
+}
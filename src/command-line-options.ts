@@ -0,0 +1,109 @@
+/**
+ * Purpose: read analysis options from the arguments given to a command.
+ */
+
+import minimist from "minimist";
+import { Options } from "./cognitive-complexity/options";
+import { isScoringProfileName, scoringProfiles } from "./cognitive-complexity/profiles";
+import { isNestedFunctionDepth, nestedFunctionDepths } from "./cognitive-complexity/depth";
+import { isScriptKindName, ScriptKindName, scriptKinds } from "./cognitive-complexity/script-kinds";
+
+export const optionsHelpText = "[--increments] [--profile <"
+    + Object.keys(scoringProfiles).join(" | ")
+    + ">] [--type-checker] [--mutual-recursion] [--jsx]"
+    + " [--promise-chains] [--regex] [--nested-function-depth <"
+    + nestedFunctionDepths.join(" | ")
+    + ">] [--cyclomatic] [--halstead]"
+    + " [--score-threshold <number>] [--depth-threshold <number>] [--tolerant]"
+    + " [--syntax-diagnostics] [--skip-syntax-errors] [--extension <.extension>=<"
+    + Object.keys(scriptKinds).join(" | ")
+    + ">]... [--html] [--typescript <path>]";
+
+export const optionsArgsSpec: minimist.Opts = {
+    boolean: ["increments", "type-checker", "mutual-recursion", "jsx", "promise-chains", "regex", "cyclomatic", "halstead", "tolerant", "syntax-diagnostics", "skip-syntax-errors", "html"],
+    string: ["profile", "nested-function-depth", "score-threshold", "depth-threshold", "extension", "typescript"],
+};
+
+export function getOptionsFromArgs(args: minimist.ParsedArgs): Partial<Options> {
+    const options: Partial<Options> = {
+        increments: args["increments"],
+        typeChecker: args["type-checker"],
+        mutualRecursion: args["mutual-recursion"],
+        jsx: args["jsx"],
+        promiseChains: args["promise-chains"],
+        regex: args["regex"],
+        cyclomatic: args["cyclomatic"],
+        halstead: args["halstead"],
+        thresholds: {
+            maxDepth: getThreshold(args, "depth-threshold"),
+            score: getThreshold(args, "score-threshold"),
+        },
+        tolerant: args["tolerant"],
+        syntaxDiagnostics: args["syntax-diagnostics"],
+        skipSyntaxErrors: args["skip-syntax-errors"],
+        extensions: getExtensions(args),
+        html: args["html"],
+        typescript: args["typescript"],
+    };
+
+    const profile = args["profile"];
+    if (profile !== undefined) {
+        if (!isScoringProfileName(profile)) {
+            throw new Error(`Unknown profile "${profile}". Arguments: ${optionsHelpText}`);
+        }
+
+        options.profile = profile;
+    }
+
+    const nestedFunctionDepth = args["nested-function-depth"];
+    if (nestedFunctionDepth !== undefined) {
+        if (!isNestedFunctionDepth(nestedFunctionDepth)) {
+            throw new Error(`Unknown nested function depth "${nestedFunctionDepth}". Arguments: ${optionsHelpText}`);
+        }
+
+        options.nestedFunctionDepth = nestedFunctionDepth;
+    }
+
+    if (options.typescript === "") {
+        throw new Error(`--typescript must be a path or a module name, not "". Arguments: ${optionsHelpText}`);
+    }
+
+    return options;
+}
+
+/**
+ * Each extension is given as `--extension .es6=js`, and the argument can be repeated.
+ */
+function getExtensions(args: minimist.ParsedArgs): Record<string, ScriptKindName> {
+    const arg: string | string[] | undefined = args["extension"];
+    if (arg === undefined) {
+        return {};
+    }
+
+    const extensions: Record<string, ScriptKindName> = {};
+
+    for (const extensionArg of typeof arg === "string" ? [arg] : arg) {
+        const [extension, kind] = extensionArg.split("=");
+        if (!extension?.startsWith(".") || kind === undefined || !isScriptKindName(kind)) {
+            throw new Error(`--extension must be like ".es6=js", not "${extensionArg}". Arguments: ${optionsHelpText}`);
+        }
+
+        extensions[extension] = kind;
+    }
+
+    return extensions;
+}
+
+function getThreshold(args: minimist.ParsedArgs, argName: string): number | undefined {
+    const arg = args[argName];
+    if (arg === undefined) {
+        return undefined;
+    }
+
+    const threshold = Number(arg);
+    if (arg === "" || !Number.isInteger(threshold) || threshold < 0) {
+        throw new Error(`--${argName} must be a whole number, not "${arg}". Arguments: ${optionsHelpText}`);
+    }
+
+    return threshold;
+}
@@ -1,29 +1,35 @@
+import minimist from "minimist";
 import * as path from "path";
 import * as process from "process";
 import { js_beautify } from "js-beautify";
 import { programOutput } from "./cognitive-complexity/output";
+import { Options } from "./cognitive-complexity/options";
+import { getOptionsFromArgs, optionsArgsSpec, optionsHelpText } from "./command-line-options";
 
 main();
 
 async function main() {
-    const args = process.argv.slice(2);
+    const args = minimist(process.argv.slice(2), optionsArgsSpec);
 
     try {
-        var filePath = args[0][0] === "/"
-            ? args[0]
-            : process.cwd() + "/" + args[0];
+        const target = args["_"][0];
+        var filePath = target[0] === "/"
+            ? target
+            : process.cwd() + "/" + target;
 
     } catch (ignore) {
-        throw new Error("Usage: arg1: target file path");
+        throw new Error(`Usage: ${optionsHelpText} arg1: target file path`);
     }
 
-    await printCognitiveComplexityJson(filePath);
+    const options = getOptionsFromArgs(args);
+
+    await printCognitiveComplexityJson(filePath, options);
 }
 
-async function printCognitiveComplexityJson(fullPath: string) {
+async function printCognitiveComplexityJson(fullPath: string, options: Partial<Options>) {
     const relativePath = path.relative(process.cwd(), fullPath);
 
-    const programOutputStr = await programOutput(relativePath);
+    const programOutputStr = await programOutput(relativePath, options);
 
     console.log(js_beautify(programOutputStr));
 }
@@ -1,15 +1,18 @@
 import minimist from "minimist";
 import open from "open";
+import { AnalysisError } from "../shared/types";
 import { nonNaN, keysToAsyncValues } from "./util/util";
 import { getFileOrFolderOutput } from "./cognitive-complexity/output";
+import { Options } from "./cognitive-complexity/options";
+import { getOptionsFromArgs, optionsArgsSpec, optionsHelpText } from "./command-line-options";
 import { createUiServer } from "./ui-server/ui-server";
 
-const helpText = "Arguments: [-h | --help] [--port <NUMBER>] [FILE]..."
+const helpText = `Arguments: [-h | --help] [--port <NUMBER>] ${optionsHelpText} [FILE]...`
 
 main();
 
 async function main() {
-    const args = minimist(process.argv.slice(2));
+    const args = minimist(process.argv.slice(2), optionsArgsSpec);
 
     if (args["h"] || args["help"]) {
         console.log(helpText);
@@ -28,7 +31,9 @@ async function main() {
         return;
     }
 
-    const combinedOutputsJson = await generateComplexityJson(inputFiles);
+    const options = getOptionsFromArgs(args);
+
+    const combinedOutputsJson = await generateComplexityJson(inputFiles, options);
 
     const server = createUiServer(combinedOutputsJson);
     server.listen(port, () => {
@@ -37,11 +42,20 @@ async function main() {
     });
 }
 
-async function generateComplexityJson(inputFiles: string[]): Promise<string> {
+async function generateComplexityJson(inputFiles: string[], options: Partial<Options>): Promise<string> {
+    const errors: AnalysisError[] = [];
+
     const combinedOutputs = await keysToAsyncValues(
         inputFiles,
-        file => getFileOrFolderOutput(file)
+        file => getFileOrFolderOutput(file, options, errors)
     );
 
+    for (const error of errors) {
+        const location = error.line !== undefined
+            ? `${error.filePath}:${error.line}:${error.column}`
+            : error.filePath;
+        console.error(`Could not analyse ${location}\n${error.message}`);
+    }
+
     return JSON.stringify(combinedOutputs);
 }
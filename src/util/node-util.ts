@@ -1,16 +1,26 @@
-import ts from "typescript";
+import type * as ts from "typescript";
+import { ColumnAndLine } from "../../shared/types";
 import { Unreachable } from "./util";
 
-function nodeLocation(node: ts.Node) {
-    const sourceFile = node.getSourceFile();
-    const lineAndCol = sourceFile
+function nodeColumnAndLine(node: ts.Node): ColumnAndLine {
+    const lineAndCol = node.getSourceFile()
         .getLineAndCharacterOfPosition(node.getStart());
 
-    return `${sourceFile.fileName}:${lineAndCol.line}:${lineAndCol.character}`;
+    return {
+        column: lineAndCol.character + 1,
+        line: lineAndCol.line + 1,
+    };
 }
 
 export class UnreachableNodeState extends Unreachable {
+    /**
+     * Where the node is in its file.
+     */
+    readonly location: ColumnAndLine;
+
     constructor(node: ts.Node, reason: string) {
-        super(`${reason}\nAt: ${nodeLocation(node)}`);
+        const location = nodeColumnAndLine(node);
+        super(`${reason}\nAt: ${node.getSourceFile().fileName}:${location.line}:${location.column}`);
+        this.location = location;
     }
 }
@@ -1,4 +1,4 @@
-export function countNotAtTheEnds<T>(arr: T[], count: (elem: T) => boolean): number {
+export function countNotAtTheEnds<T>(arr: readonly T[], count: (elem: T) => boolean): number {
     if (arr.length <= 2) {
         return 0;
     }
@@ -57,14 +57,15 @@ export async function keysToAsyncValues<K extends keyof any, V>(
 export async function createObjectOfPromisedValues<I, K extends keyof any, V>(
     inputs: I[],
     toKey: (input: I) => K,
-    toMaybePromise: (input: I) => Promise<V> | undefined
+    toMaybePromise: (input: I) => Promise<V | undefined> | undefined
 ): Promise<Record<K, V>> {
     const output = {} as Record<K, V>;
 
     // Create a Promise for each input entry
     // that may perform another asynchronously task to generate a key-value pair.
     // If it does so, that key-value pair is assigned to the output.
-    // No key-value will be produced if there is no internal Promise to wait for.
+    // No key-value will be produced if there is no internal Promise to wait for,
+    // or if the Promise produces no value.
 
     const promises = [] as Promise<void>[];
 
@@ -72,8 +73,10 @@ export async function createObjectOfPromisedValues<I, K extends keyof any, V>(
         const maybePromise = toMaybePromise(input);
         if (maybePromise !== undefined) {
             const promise = maybePromise.then(value => {
-                const key = toKey(input);
-                output[key] = value;
+                if (value !== undefined) {
+                    const key = toKey(input);
+                    output[key] = value;
+                }
             });
             promises.push(promise);
         }
@@ -102,6 +105,60 @@ export function repeat(str: string, times: number): string {
     return res;
 }
 
+/**
+ * Groups nodes of a directed graph so that each node in a group can reach every other node in the group.
+ * This uses Tarjan's algorithm.
+ * @param edges Gives the nodes that a node has an edge to
+ */
+export function stronglyConnectedComponents<T>(nodes: T[], edges: (node: T) => Iterable<T>): T[][] {
+    let nextIndex = 0;
+    const index = new Map<T, number>();
+    const lowLink = new Map<T, number>();
+    const stack = [] as T[];
+    const onStack = new Set<T>();
+    const components = [] as T[][];
+
+    function visit(node: T) {
+        index.set(node, nextIndex);
+        lowLink.set(node, nextIndex);
+        nextIndex += 1;
+
+        stack.push(node);
+        onStack.add(node);
+
+        for (const target of edges(node)) {
+            if (!index.has(target)) {
+                visit(target);
+                lowLink.set(node, Math.min(lowLink.get(node)!, lowLink.get(target)!));
+            } else if (onStack.has(target)) {
+                lowLink.set(node, Math.min(lowLink.get(node)!, index.get(target)!));
+            }
+        }
+
+        // the node is the first of its component to be visited
+        if (lowLink.get(node) === index.get(node)) {
+            const component = [] as T[];
+
+            let member: T;
+            do {
+                member = stack.pop()!;
+                onStack.delete(member);
+                component.push(member);
+            } while (member !== node);
+
+            components.push(component);
+        }
+    }
+
+    for (const node of nodes) {
+        if (!index.has(node)) {
+            visit(node);
+        }
+    }
+
+    return components;
+}
+
 export function toPromise<T, E>(
     action: (callback: (err: E, successData: T) => void) => void,
     errorTransformer?: (err: E) => Error
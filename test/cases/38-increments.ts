@@ -0,0 +1,22 @@
+function f(a: boolean, b: boolean) {
+    if (a) {
+        for (const x of [1, 2]) {
+            if (b && !a || b) {
+                f(a, b);
+            }
+        }
+    } else if (b) {
+    } else {
+    }
+}
+
+const g = () => {
+    while (true) {
+        try {
+        } catch (e) {
+            return a ? 1 : 2;
+        }
+    }
+};
+
+type T<U> = U extends string ? { [K in keyof U]: T<U[K]> } : number | string;
@@ -0,0 +1,37 @@
+function shadowed() {
+    function shadowed() {
+    }
+
+    shadowed(); // calls the inner function, so is not recursive
+}
+
+function parameter(parameter: () => void) {
+    parameter(); // not recursive
+}
+
+function aliased() {
+    const self = aliased; // +1 for recursive reference
+    self(); // +1 for recursive call
+}
+
+function outer() {
+    function inner() {
+        outer(); // +1
+    }
+}
+
+class Tree {
+    children: Tree[] = []; // +1 for recursive reference
+
+    size(): number {
+        return this.size(); // +1
+    }
+}
+
+const obj = {
+    method() {
+        this.method(); // +1
+    },
+};
+
+type List = { next: List }; // +1 for recursive reference
@@ -0,0 +1,34 @@
+function viaCall() {
+    viaCall.call(this); // +1
+}
+
+function viaApply() {
+    viaApply.apply(this, []); // +1
+}
+
+function viaBind() {
+    const bound = viaBind.bind(this); // +1
+}
+
+function asCallback(arr: number[]) {
+    arr.map(asCallback); // +1
+}
+
+function asTimeout() {
+    setTimeout(asTimeout); // +1
+}
+
+function inBrackets() {
+    new Promise((inBrackets)); // +1
+}
+
+class C {
+    method() {
+        [].forEach(this.method); // +1
+        this.method.call(this); // +1
+    }
+}
+
+function notRecursive(arr: number[]) {
+    arr.map(x => x);
+}
@@ -0,0 +1,40 @@
+function isEven(n: number): boolean {
+    return n === 0 ? true : isOdd(n - 1); // +1 for the cycle
+}
+
+function isOdd(n: number): boolean {
+    return n === 0 ? false : isEven(n - 1); // +1 for the cycle
+}
+
+function a() {
+    b(); // +1 for the cycle
+}
+
+function b() {
+    c(); // +1 for the cycle
+}
+
+function c() {
+    a(); // +1 for the cycle
+}
+
+function notInCycle() {
+    a();
+}
+
+class Parser {
+    parseExpression() {
+        this.parseTerm(); // +1 for the cycle
+    }
+
+    parseTerm() {
+        this.parseExpression(); // +1 for the cycle
+    }
+}
+
+const outer = () => {
+    const inner = () => outer(); // recursion, but not a cycle
+};
+
+type Tree = { children: Forest }; // +1 for the cycle
+type Forest = Tree[]; // +1 for the cycle
@@ -0,0 +1,39 @@
+function ignoreNextLine(a: boolean, b: boolean) {
+    // ccts-ignore-next-line
+    if (a) {
+        if (b) { // +2 nesting still counts
+        }
+    }
+
+    if (b) { // +1
+    }
+}
+
+function disableRegion(a: boolean[]) {
+    // ccts-disable
+    for (const x of a) {
+        while (x) {
+        }
+    }
+    // ccts-enable
+
+    for (const x of a) { // +1
+    }
+}
+
+/** @ccts-ignore accepted for now */
+function ignoredWithTag(a: boolean) {
+    if (a) { // +1
+        return a ? 1 : 2; // +2
+    }
+}
+
+class Example {
+    /** @ccts-ignore */
+    method(a: boolean) {
+        return a && !a; // +1
+    }
+}
+
+/* ccts-disable */
+const unterminated = (a: boolean) => a ? 1 : 2;
@@ -0,0 +1,47 @@
+function straightLine() {
+    return 1;
+}
+
+function branches(a: number, b?: number) { // 1
+    if (a > 0 && b) { // +2
+        return a;
+    } else if (a < 0 || b === undefined) { // +2
+        return -a;
+    } else {
+        return b ?? 0; // +1
+    }
+}
+
+function loops(items: number[]) { // 1
+    for (const item of items) { // +1
+        while (item) { // +1
+        }
+    }
+
+    for (let i = 0; i < items.length; i++) { // +1
+    }
+
+    do {
+    } while (items.length); // +1
+
+    try {
+    } catch (e) { // +1
+    }
+}
+
+function cases(a: string) { // 1
+    switch (a) {
+        case "a": // +1
+        case "b": // +1
+            return a ? 1 : 2; // +1
+        default:
+            return 0;
+    }
+}
+
+class Outer { // 1
+    method(a: boolean) { // 1
+        const inner = () => a || !a; // 1 +1
+        return inner() && a; // +1
+    }
+}
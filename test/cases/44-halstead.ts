@@ -0,0 +1,22 @@
+function empty() {}
+
+function add(a: number, b: number) {
+    return a + b;
+}
+
+function describe(items: string[]) {
+    let text = `${items.length} items`;
+    for (const item of items) {
+        text += item === "" ? "empty" : item;
+    }
+    return text;
+}
+
+class Counter {
+    #count = 0;
+
+    increment() {
+        this.#count++;
+        return this;
+    }
+}
@@ -0,0 +1,35 @@
+function flat() {
+    return 1;
+}
+
+function nested(a: boolean, b: boolean) {
+    if (a) {
+        for (;;) {
+            if (b) {
+                return; // depth 3
+            }
+        }
+    }
+
+    while (a) {
+        if (b) { // not as deep
+        }
+    }
+}
+
+function outer() {
+    return () => {
+        if (true) { // depth 2, from the arrow function and the if
+        }
+    };
+}
+
+/** @ccts-ignore */
+function suppressed(a: boolean) {
+    if (a) {
+        while (a) {
+            if (a) {
+            }
+        }
+    }
+}
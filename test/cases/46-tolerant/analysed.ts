@@ -0,0 +1,6 @@
+function analysed(a: boolean) {
+    if (a) {
+        return 1;
+    }
+    return 0;
+}
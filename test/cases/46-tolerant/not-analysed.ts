@@ -0,0 +1,5 @@
+class QuotedMethodName {
+    "not an identifier"() {
+        return 1;
+    }
+}
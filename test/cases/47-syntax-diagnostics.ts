@@ -0,0 +1,6 @@
+function missingOperand(a: boolean) {
+    if (a) {
+        return 1 +;
+    }
+    return 0;
+}
@@ -0,0 +1,3 @@
+module.exports = function commonJs(a) {
+    return a && 1;
+};
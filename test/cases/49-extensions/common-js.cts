@@ -0,0 +1,3 @@
+export function commonJs(a: boolean) {
+    return a ? 1 : 0;
+}
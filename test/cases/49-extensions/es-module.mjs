@@ -0,0 +1,3 @@
+export function esModule(a) {
+    return a ? 1 : 0;
+}
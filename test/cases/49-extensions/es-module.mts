@@ -0,0 +1,8 @@
+export function esModule(a: boolean) {
+    return a ? 1 : 0;
+}
+
+export function recursive(n: number): number {
+    const self = recursive;
+    return self(n - 1);
+}
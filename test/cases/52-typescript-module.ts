@@ -0,0 +1,3 @@
+function chosenCompiler(a: boolean) {
+    return a ? 1 : 0;
+}
@@ -0,0 +1,36 @@
+class Counter {
+    static count = 0;
+
+    static {
+        if (Counter.count === 0) {
+            for (const x of [1, 2]) {
+                Counter.count += x;
+            }
+        }
+    }
+
+    accessor step = (by: number) => by > 0 ? by : 1;
+}
+
+const handlers = {
+    onClick: () => true,
+} satisfies Record<string, () => boolean>;
+
+const handle = ((event: string) => event ? 1 : 0) satisfies (event: string) => number;
+
+function useResource() {
+    using resource = { [Symbol.dispose]() {} };
+    if (resource) {
+        return 1;
+    }
+}
+
+function optionalCatch() {
+    try {
+        useResource();
+    } catch {
+        if (handle("a")) {
+            return 1;
+        }
+    }
+}
@@ -0,0 +1,21 @@
+function List({ items, loading, error }) {
+    return <div>
+        {loading && <Spinner/>}
+        {error ?? <p>No errors</p>}
+        {items.length > 0 && items.every(Boolean) && (
+            <ul>
+                {items.map(item => <li>
+                    {item.done ? <Done/> : <Todo/>}
+                    {item.tags.map(tag => tag.visible && <span>{tag.name}</span>)}
+                </li>)}
+            </ul>
+        )}
+    </div>;
+}
+
+function NotRendering(a, b) {
+    // not conditional rendering
+    const both = a && b;
+    const doubled = [a, b].map(x => x * 2);
+    return <p>{both && doubled.length}</p>;
+}
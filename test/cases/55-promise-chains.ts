@@ -0,0 +1,32 @@
+function load(url: string) {
+    return fetch(url)
+        .then(response => {
+            if (!response.ok) {
+                throw new Error(response.statusText);
+            }
+            return response.json();
+        })
+        .then(body => body.items.map(item => item.name))
+        .then(names => {
+            for (const name of names) {
+                console.log(name);
+            }
+        })
+        .catch(error => {
+            if (error instanceof TypeError) {
+                retry();
+            }
+        })
+        .finally(() => done());
+}
+
+function nested(promise: Promise<number>) {
+    if (promise) {
+        promise.catch(report);
+    }
+}
+
+function notChained(promise: Promise<number>) {
+    // a single `.then` is not deeper
+    promise.then(value => value ? 1 : 0);
+}
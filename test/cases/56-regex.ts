@@ -0,0 +1,15 @@
+const host = /^(?:(?:[a-z]+\.)*[a-z]+|\d{1,3}(?:\.\d{1,3}){3})$/;
+
+// no increment
+const plain = /^[a-z(|)]+\/\d$/i;
+
+const repeated = /(["'])(?<word>\w+)\1\k<word>/;
+
+const lookarounds = /(?<=\$)\d+(?!px)/g;
+
+function build(name: string) {
+    if (name) {
+        return new RegExp("^(" + name + ")$");
+    }
+    return RegExp("(a|b)|((c)d)", "u");
+}
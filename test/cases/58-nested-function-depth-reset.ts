@@ -0,0 +1,23 @@
+function each(items: number[][]) {
+    for (const row of items) {
+        row.forEach(item => {
+            if (item > 0) {
+                console.log(item);
+            }
+        });
+    }
+
+    const f = function () {
+        return items.length > 0 ? 1 : 0;
+    };
+
+    if (items.length > 1) {
+        class Table {
+            static {
+                if (items[0].length > 0) {
+                    console.log(items[0]);
+                }
+            }
+        }
+    }
+}
@@ -0,0 +1,16 @@
+function loop(items: number[][]) {
+    for (const row of items) {
+        // the body is a level below the function, like the body of an arrow function
+        row.forEach(function (item) {
+            if (item > 0) {
+                console.log(item);
+            }
+        });
+
+        row.forEach(item => {
+            if (item > 0) {
+                console.log(item);
+            }
+        });
+    }
+}
@@ -0,0 +1,13 @@
+function each(items: number[][]) {
+    for (const row of items) {
+        row.forEach(item => {
+            if (item > 0) {
+                console.log(item);
+            }
+        });
+    }
+
+    const f = function () {
+        return items.length > 0 ? 1 : 0;
+    };
+}
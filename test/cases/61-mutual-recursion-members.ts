@@ -0,0 +1,11 @@
+class Reader {
+    read() {
+        this.write(); // not a cycle, Reader has no write method
+    }
+}
+
+class Writer {
+    write() {
+        this.read(); // not a cycle, Writer has no read method
+    }
+}
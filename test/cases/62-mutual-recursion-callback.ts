@@ -0,0 +1,7 @@
+function a(items: number[]) {
+    items.forEach(() => b(items)); // +1 for the cycle
+}
+
+function b(items: number[]) {
+    a(items); // +1 for the cycle
+}
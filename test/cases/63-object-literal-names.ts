@@ -0,0 +1,29 @@
+const obj = {
+    method() {
+        return 1;
+    },
+    arrow: () => 2,
+    get value() {
+        return 3;
+    },
+    nested: {
+        inner() {
+            return 4;
+        },
+    },
+};
+
+function outer() {
+    const local = {
+        method() {
+            return 5;
+        },
+    };
+    return [local, { anonymous() { return 6; } }];
+}
+
+export default {
+    exported() {
+        return 7;
+    },
+};
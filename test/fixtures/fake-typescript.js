@@ -0,0 +1,35 @@
+/**
+ * A TypeScript module that is not the one this package depends on,
+ * for the case that chooses the TypeScript module to parse with.
+ * It is TypeScript, except that every file it parses ends with a function that says where it was parsed,
+ * and every file gets a diagnostic that says so too.
+ */
+
+const ts = require("typescript");
+
+module.exports = {
+    ...ts,
+    createSourceFile: (fileName, sourceText, ...rest) => ts.createSourceFile(
+        fileName,
+        sourceText + "\nfunction parsedByTheFakeTypeScriptModule() {}\n",
+        ...rest,
+    ),
+    createProgram: (...args) => {
+        const program = ts.createProgram(...args);
+
+        return {
+            ...program,
+            getSyntacticDiagnostics: file => [
+                ...program.getSyntacticDiagnostics(file),
+                {
+                    file,
+                    start: 0,
+                    length: 0,
+                    code: 0,
+                    category: ts.DiagnosticCategory.Message,
+                    messageText: "Parsed by the fake TypeScript module.",
+                },
+            ],
+        };
+    },
+};
@@ -6,27 +6,100 @@ import * as path from "path";
 import * as process from "process";
 import tempfile from "tempfile";
 import { toPromise } from "../src/util/util";
-import { programOutput } from "../src/api";
+import {
+    defaultOptions,
+    Options,
+    programOutput,
+    ScoringProfileName,
+    scoringProfiles,
+    TolerantProgramOutput
+} from "../src/api";
 import { compare } from "./util";
 
 const casesDir = path.normalize(__dirname + "/../../test/cases");
 
+/**
+ * Tolerant analyses of a file that can not be read.
+ * The file is made in a temporary folder when the tests run,
+ * so that there is no broken file in the repository.
+ */
+const unreadableFileCases: { name: string, entryPath: string, expected: TolerantProgramOutput }[] = [
+    {
+        name: "unreadable-file-in-folder",
+        entryPath: "folder",
+        expected: {
+            output: { folder: {} },
+            errors: [{
+                filePath: "folder/missing.ts",
+                message: "ENOENT: no such file or directory, open 'folder/missing.ts'",
+            }],
+        },
+    },
+    {
+        name: "unreadable-file-entry",
+        entryPath: "folder/missing.ts",
+        expected: {
+            output: {},
+            errors: [{
+                filePath: "folder/missing.ts",
+                message: "ENOENT: no such file or directory, stat 'folder/missing.ts'",
+            }],
+        },
+    },
+];
+
 main();
 
 function allCaseFilePaths(): Promise<string[]> {
     return toPromise(cb => glob(`${casesDir}/*`, cb));
 }
 
-async function getExpectation(fileName: string): Promise<any> {
+function removeExtension(fileName: string): string {
     const tsIndex = fileName.lastIndexOf(".");
     if (tsIndex !== -1) {
-        fileName = fileName.substr(0, tsIndex);
+        return fileName.substr(0, tsIndex);
     }
-    const caseExpectationFile = fileName + ".expected.json";
+    return fileName;
+}
+
+/**
+ * A case can have a different expectation for each scoring profile,
+ * e.g. `01-case.sonar.expected.json`.
+ * Otherwise the expectation is the same for all profiles.
+ */
+async function getExpectation(fileName: string, profile: ScoringProfileName): Promise<any> {
+    const profileExpectationFile = removeExtension(fileName) + "." + profile + ".expected.json";
+    const caseExpectationFile = fs.existsSync(profileExpectationFile)
+        ? profileExpectationFile
+        : removeExtension(fileName) + ".expected.json";
+
     const expectedJsonFile = await fsP.readFile(caseExpectationFile);
     return JSON.parse(expectedJsonFile.toString());
 }
 
+/**
+ * A case can be run with non-default options
+ * by putting them in a file next to the case, e.g. `01-case.options.json`.
+ * An option that is null in the file is given as undefined.
+ */
+async function getOptions(fileName: string): Promise<Partial<Options>> {
+    const caseOptionsFile = removeExtension(fileName) + ".options.json";
+
+    if (!fs.existsSync(caseOptionsFile)) {
+        return {};
+    }
+
+    const optionsJsonFile = await fsP.readFile(caseOptionsFile);
+    const options = JSON.parse(optionsJsonFile.toString());
+    for (const name of Object.keys(options)) {
+        if (options[name] === null) {
+            options[name] = undefined;
+        }
+    }
+
+    return options;
+}
+
 async function main() {
     // expected file paths are relative to the case dir
     process.chdir(casesDir);
@@ -34,7 +107,8 @@ async function main() {
     // get all case names
     // treat ts files and folders as tests
     let caseFilePaths = (await allCaseFilePaths())
-        .filter(path => !path.endsWith(".expected.json"));
+        .filter(path => !path.endsWith(".expected.json"))
+        .filter(path => !path.endsWith(".options.json"));
 
     const wantedTests = process.argv.slice(2);
     if (wantedTests.length > 0) {
@@ -43,37 +117,53 @@ async function main() {
     }
 
     const failedCases = [] as string[];
+    let caseCount = 0;
 
     // for each case
     for (const caseFilePath of caseFilePaths) {
         const testFileName = path.parse(caseFilePath).name;
-        const testName = testFileName.split(".")[0];
-        console.log("Testing", testName);
-
-        // run program on case
-        // convert output to json
-        const outputPath = tempfile();
-        try {
-            const resultObj = await runCase(caseFilePath, outputPath);
-            // read json expected for case
-            const expectedObj = await getExpectation(caseFilePath);
-            // deep compare the 2
-            const difference = compare(expectedObj, resultObj);
-            // output the difference
-            // print pass or fail
-            if (difference && difference.length > 0) {
-                throw js_beautify(JSON.stringify(difference));
-            } else {
-                console.log("Pass");
+        const caseOptions = await getOptions(caseFilePath);
+
+        // run the case under every profile, unless it is for a particular one
+        const profiles = caseOptions.profile !== undefined
+            ? [caseOptions.profile]
+            : Object.keys(scoringProfiles) as ScoringProfileName[];
+
+        for (const profile of profiles) {
+            const testName = profile === defaultOptions.profile
+                ? testFileName.split(".")[0]
+                : testFileName.split(".")[0] + " (" + profile + ")";
+
+            caseCount += 1;
+
+            const passed = await testCase(testName, caseFilePath, { ...caseOptions, profile });
+            if (!passed) {
+                failedCases.push(testName);
             }
-        } catch (err) {
-            console.error("Result", outputPath);
-            console.error("Fail");
-            console.error(err);
-            console.trace();
-            failedCases.push(testName);
+        }
+    }
+
+    for (const unreadableFileCase of unreadableFileCases) {
+        if (wantedTests.length > 0 && !wantedTests.some(test => unreadableFileCase.name.includes(test))) {
             continue;
         }
+
+        caseCount += 1;
+
+        const passed = await testUnreadableFile(unreadableFileCase.name, unreadableFileCase.entryPath, unreadableFileCase.expected);
+        if (!passed) {
+            failedCases.push(unreadableFileCase.name);
+        }
+    }
+
+    const typeScriptModuleTestName = "typescript-module-not-kept";
+    if (wantedTests.length === 0 || wantedTests.some(test => typeScriptModuleTestName.includes(test))) {
+        caseCount += 1;
+
+        const passed = await testTypeScriptModuleNotKept(typeScriptModuleTestName);
+        if (!passed) {
+            failedCases.push(typeScriptModuleTestName);
+        }
     }
 
     // list failures
@@ -82,11 +172,100 @@ async function main() {
         console.log(failedCases);
     }
 
-    console.log(caseFilePaths.length - failedCases.length, "passed. Out of", caseFilePaths.length);
+    console.log(caseCount - failedCases.length, "passed. Out of", caseCount);
+}
+
+async function testCase(testName: string, caseFilePath: string, options: Partial<Options> & { profile: ScoringProfileName }): Promise<boolean> {
+    console.log("Testing", testName);
+
+    // run program on case
+    // convert output to json
+    const outputPath = tempfile();
+    try {
+        const resultObj = await runCase(caseFilePath, options, outputPath);
+        // read json expected for case
+        const expectedObj = await getExpectation(caseFilePath, options.profile);
+        // deep compare the 2
+        const difference = compare(expectedObj, resultObj);
+        // output the difference
+        // print pass or fail
+        if (difference && difference.length > 0) {
+            throw js_beautify(JSON.stringify(difference));
+        } else {
+            console.log("Pass");
+        }
+    } catch (err) {
+        console.error("Result", outputPath);
+        console.error("Fail");
+        console.error(err);
+        console.trace();
+        return false;
+    }
+
+    return true;
+}
+
+async function testUnreadableFile(testName: string, entryPath: string, expected: TolerantProgramOutput): Promise<boolean> {
+    console.log("Testing", testName);
+
+    const tempDir = tempfile();
+    try {
+        await fsP.mkdir(tempDir + "/folder", { recursive: true });
+        // a link to nothing can never be read
+        await fsP.symlink("does-not-exist.ts", tempDir + "/folder/missing.ts");
+
+        // so that the paths in the output are the same on every machine
+        process.chdir(tempDir);
+        const result = JSON.parse(await programOutput(entryPath, { tolerant: true }));
+
+        const difference = compare(expected, result);
+        if (difference && difference.length > 0) {
+            throw js_beautify(JSON.stringify(difference));
+        } else {
+            console.log("Pass");
+        }
+    } catch (err) {
+        console.error("Fail");
+        console.error(err);
+        return false;
+    } finally {
+        process.chdir(casesDir);
+        await fsP.rm(tempDir, { recursive: true, force: true });
+    }
+
+    return true;
+}
+
+/**
+ * The TypeScript module chosen for one analysis is not used by the next.
+ */
+async function testTypeScriptModuleNotKept(testName: string): Promise<boolean> {
+    console.log("Testing", testName);
+
+    const caseFilePath = "52-typescript-module.ts";
+    try {
+        const defaultResult = JSON.parse(await programOutput(caseFilePath));
+        await programOutput(caseFilePath, { typescript: "../fixtures/fake-typescript.js" });
+        const nextResult = JSON.parse(await programOutput(caseFilePath));
+
+        const difference = compare(defaultResult, nextResult);
+        if (difference && difference.length > 0) {
+            throw js_beautify(JSON.stringify(difference));
+        } else {
+            console.log("Pass");
+        }
+    } catch (err) {
+        console.error("Fail");
+        console.error(err);
+        return false;
+    }
+
+    return true;
 }
 
-async function runCase(caseFilePath: string, outputPath: string): Promise<string> {
-    const result = await programOutput(caseFilePath);
+async function runCase(caseFilePath: string, options: Partial<Options>, outputPath: string): Promise<string> {
+    // so that the paths in the output are the same on every machine
+    const result = await programOutput(path.relative(casesDir, caseFilePath), options);
 
     fs.createWriteStream(outputPath)
         .write(js_beautify(result));
@@ -1,5 +1,5 @@
-import { ProgramOutput } from "../../../shared/types.js";
-import { cloneSortedOutput, convertToSortedOutput, isSortedContainerOutput, isSortedFileOutput, isSortedFolderOutput, SortedAnything, SortedProgram, sortProgramByComplexity, sortProgramByName, sortProgramInOrder } from "../domain/sortedOutput.js";
+import { ContainerKind, ProgramOutput } from "../../../shared/types.js";
+import { cloneSortedOutput, convertToSortedOutput, isSortedContainerOutput, isSortedFileOutput, isSortedFolderOutput, SortedAnything, SortedProgram, sortProgramByComplexity, sortProgramByName, sortProgramBySelfComplexity, sortProgramInOrder } from "../domain/sortedOutput.js";
 import { removeAll } from "../util.js";
 import { Tree } from "../component/tree/Tree.js";
 import { ComplexityModel } from "./ComplexityModel.js";
@@ -13,6 +13,12 @@ export enum Include {
 export enum Sort {
     inOrder = 1,
     complexity,
+    selfComplexity,
+}
+
+export enum ColourBy {
+    score = 1,
+    selfScore,
 }
 
 /**
@@ -27,6 +33,7 @@ export class ComplexityController {
     private initialComplexity: SortedProgram;
 
     private include = Include.folders;
+    private excludedKinds = new Set<ContainerKind>();
     private sortMethod = Sort.inOrder;
 
     constructor(progComp: ProgramOutput, model: ComplexityModel, view: Tree) {
@@ -67,6 +74,8 @@ export class ComplexityController {
 
         } else if (this.sortMethod === Sort.complexity) {
             sortProgramByComplexity(this.complexity);
+        } else if (this.sortMethod === Sort.selfComplexity) {
+            sortProgramBySelfComplexity(this.complexity);
         }
     }
 
@@ -76,6 +85,12 @@ export class ComplexityController {
         this.model.overwriteComplexity(this.complexity);
     }
 
+    // colour
+
+    setColourBy(colourBy: ColourBy) {
+        this.view.setColourBySelfScore(colourBy === ColourBy.selfScore);
+    }
+
     // filter
 
     private filter() {
@@ -88,7 +103,10 @@ export class ComplexityController {
                     ? data => isSortedFolderOutput(data)
                     : data => !isSortedContainerOutput(data)
 
-        this.moveComplexityNodes(this.complexity.inner, removeWhat);
+        const removeKind = (data: SortedAnything) => isSortedContainerOutput(data)
+            && this.excludedKinds.has(data.kind);
+
+        this.moveComplexityNodes(this.complexity.inner, data => removeWhat(data) || removeKind(data));
 
         this.reDepth();
         this.sort();
@@ -133,4 +151,14 @@ export class ComplexityController {
         this.include = include;
         this.filter();
     }
+
+    setIncludeKind(kind: ContainerKind, include: boolean) {
+        if (include) {
+            this.excludedKinds.delete(kind);
+        } else {
+            this.excludedKinds.add(kind);
+        }
+
+        this.filter();
+    }
 }
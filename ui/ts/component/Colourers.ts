@@ -0,0 +1,12 @@
+import { ColourBy, ComplexityController } from "../complexity-tree/ComplexityController.js";
+import { ToggleControl } from "./controls/ToggleControl.js";
+
+export function Colourers(controller: ComplexityController) {
+    const colourBySelfScore = new ToggleControl(false, "Colour By Self Score", (state) => {
+        controller.setColourBy(state ? ColourBy.selfScore : ColourBy.score);
+    });
+
+    return [
+        colourBySelfScore.dom,
+    ];
+}
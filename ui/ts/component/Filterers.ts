@@ -1,6 +1,21 @@
+import { ContainerKind } from "../../../shared/types.js";
 import { ComplexityController, Include } from "../complexity-tree/ComplexityController.js";
 import { ToggleControl } from "./controls/ToggleControl.js";
 
+const kindLabels: Record<ContainerKind, string> = {
+    accessor: "Accessors",
+    arrow: "Arrow Functions",
+    class: "Classes",
+    constructor: "Constructors",
+    function: "Functions",
+    interface: "Interfaces",
+    method: "Methods",
+    namespace: "Namespaces",
+    script: "Scripts",
+    static: "Static Blocks",
+    type: "Types",
+};
+
 export function Filterers(controller: ComplexityController) {
     function updateFilter() {
         if (includeFolders.getState()) {
@@ -30,8 +45,14 @@ export function Filterers(controller: ComplexityController) {
         updateFilter();
     });
 
+    const includeKinds = (Object.keys(kindLabels) as ContainerKind[])
+        .map(kind => new ToggleControl(true, `Include ${kindLabels[kind]}`, (state) => {
+            controller.setIncludeKind(kind, state);
+        }));
+
     return [
         includeFolders.dom,
         includeFiles.dom,
+        ...includeKinds.map(includeKind => includeKind.dom),
     ];
 }
\ No newline at end of file
@@ -6,6 +6,7 @@ import { ButtonControl } from "./controls/ButtonControl.js";
 import { ComplexityModel } from "../complexity-tree/ComplexityModel.js";
 import { Filterers } from "./Filterers.js";
 import { Sorters } from "./Sorters.js";
+import { Colourers } from "./Colourers.js";
 
 export function Main(complexity: ProgramOutput) {
     const view = new Tree();
@@ -22,6 +23,7 @@ export function Main(complexity: ProgramOutput) {
 
         ...Sorters(controller),
         ...Filterers(controller),
+        ...Colourers(controller),
 
         view.dom
     );
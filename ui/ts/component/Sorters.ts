@@ -7,21 +7,35 @@ export function Sorters(controller: ComplexityController) {
             controller.setSortBy(Sort.inOrder);
         } else if (sortByComplexity.getState()) {
             controller.setSortBy(Sort.complexity);
+        } else if (sortBySelfComplexity.getState()) {
+            controller.setSortBy(Sort.selfComplexity);
         }
     }
 
-    const sortInOrder = new ToggleControl(true, "Sort A-Z & By Line", (state) => {
-        sortByComplexity.setState(!state);
+    // exactly one sort is chosen at a time
+    function choose(chosen: ToggleControl) {
+        for (const sorter of [sortInOrder, sortByComplexity, sortBySelfComplexity]) {
+            sorter.setState(sorter === chosen);
+        }
+
         updateSort();
+    }
+
+    const sortInOrder = new ToggleControl(true, "Sort A-Z & By Line", (state) => {
+        choose(state ? sortInOrder : sortByComplexity);
     });
 
     const sortByComplexity = new ToggleControl(false, "Sort By Complexity", (state) => {
-        sortInOrder.setState(!state);
-        updateSort();
+        choose(state ? sortByComplexity : sortInOrder);
+    });
+
+    const sortBySelfComplexity = new ToggleControl(false, "Sort By Self Complexity", (state) => {
+        choose(state ? sortBySelfComplexity : sortInOrder);
     });
 
     return [
         sortInOrder.dom,
         sortByComplexity.dom,
+        sortBySelfComplexity.dom,
     ];
 }
\ No newline at end of file
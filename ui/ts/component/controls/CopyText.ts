@@ -26,10 +26,10 @@ class HiddenCopyText {
     };
 }
 
-export function CopyText(text: string): Node {
+export function CopyText(text: string, title = "copy"): Node {
     const copyButton = element("button", {
         className: "copytext-button",
-        title: "copy",
+        title,
         type: "button"
     },
         ClipboardSvg()
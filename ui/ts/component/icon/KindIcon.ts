@@ -0,0 +1,27 @@
+import { ContainerKind } from "../../../../shared/types.js";
+import { addStyleSheet, element } from "../../framework.js";
+
+addStyleSheet(import.meta.url);
+
+const symbols: Record<ContainerKind, string> = {
+    accessor: "get",
+    arrow: "=>",
+    class: "C",
+    constructor: "new",
+    function: "f",
+    interface: "I",
+    method: "m",
+    namespace: "N",
+    script: "<>",
+    static: "{}",
+    type: "T",
+};
+
+export function KindIcon(kind: ContainerKind) {
+    return element("span", {
+        className: `kind-icon kind-icon-${kind}`,
+        title: kind,
+    },
+        symbols[kind]
+    );
+}
@@ -0,0 +1,17 @@
+import { SyntaxDiagnostic } from "../../../../shared/types.js";
+import { addStyleSheet, element } from "../../framework.js";
+
+addStyleSheet(import.meta.url);
+
+export function SyntaxWarning(syntaxDiagnostics: SyntaxDiagnostic[]) {
+    const description = syntaxDiagnostics
+        .map(diagnostic => `${diagnostic.line}:${diagnostic.column} ${diagnostic.message}`)
+        .join("\n");
+
+    return element("span", {
+        className: "syntax-warning",
+        title: "Syntax errors make the score unreliable.\n" + description,
+    },
+        "⚠"
+    );
+}
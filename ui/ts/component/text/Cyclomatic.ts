@@ -0,0 +1,7 @@
+import { addStyleSheet, element } from "../../framework.js";
+
+addStyleSheet(import.meta.url);
+
+export function Cyclomatic(cyclomatic: number) {
+    return element("p", { className: "cyclomatic" }, "Cyclomatic: " + cyclomatic);
+}
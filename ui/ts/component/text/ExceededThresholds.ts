@@ -0,0 +1,15 @@
+import { ThresholdName } from "../../../../shared/types.js";
+import { addStyleSheet, element } from "../../framework.js";
+
+addStyleSheet(import.meta.url);
+
+const thresholdLabels: Record<ThresholdName, string> = {
+    maxDepth: "max depth",
+    score: "score",
+};
+
+export function ExceededThresholds(exceededThresholds: ThresholdName[]) {
+    return element("p", { className: "exceeded-thresholds" },
+        "Exceeds threshold: " + exceededThresholds.map(name => thresholdLabels[name]).join(", ")
+    );
+}
@@ -0,0 +1,10 @@
+import { Halstead as HalsteadMetrics } from "../../../../shared/types.js";
+import { addStyleSheet, element } from "../../framework.js";
+
+addStyleSheet(import.meta.url);
+
+export function Halstead(halstead: HalsteadMetrics) {
+    return element("p", { className: "halstead" },
+        `Halstead volume: ${halstead.volume}, difficulty: ${halstead.difficulty}, effort: ${halstead.effort}`
+    );
+}
@@ -0,0 +1,12 @@
+import { Increment } from "../../../../shared/types.js";
+import { addStyleSheet, element } from "../../framework.js";
+
+addStyleSheet(import.meta.url);
+
+export function Increments(increments: Increment[]) {
+    return element("ul", { className: "increments" },
+        ...increments.map(increment => element("li", {},
+            `+${increment.inherent + increment.nesting} ${increment.reason} (${increment.line}:${increment.column})`
+        ))
+    );
+}
@@ -0,0 +1,10 @@
+import { SourceRange } from "../../../../shared/types.js";
+import { addStyleSheet, element } from "../../framework.js";
+
+addStyleSheet(import.meta.url);
+
+export function Lines(startLine: number, range: SourceRange) {
+    return element("p", { className: "lines" },
+        `Lines ${startLine}-${range.endLine}: ${range.physicalLines} physical, ${range.logicalLines} logical`
+    );
+}
@@ -0,0 +1,10 @@
+import { MaxDepth as MaxDepthOutput } from "../../../../shared/types.js";
+import { addStyleSheet, element } from "../../framework.js";
+
+addStyleSheet(import.meta.url);
+
+export function MaxDepth(maxDepth: MaxDepthOutput) {
+    return element("p", { className: "max-depth" },
+        `Max depth: ${maxDepth.depth} (${maxDepth.line}:${maxDepth.column})`
+    );
+}
@@ -2,6 +2,22 @@ import { addStyleSheet, element } from "../../framework.js";
 
 addStyleSheet(import.meta.url);
 
-export function Score(score: string | number) {
-    return element("p", { className: "score" }, "Score: " + score)
+export function Score(score: number, selfScore: number, suppressed = false) {
+    return element("p", { className: "score" },
+        element("span", { className: `score-total ${scoreLevel(score)}` }, "Score: " + score),
+        element("span", { className: `score-self ${scoreLevel(selfScore)}` }, " (self: " + selfScore + ")"),
+        ...(suppressed ? [element("span", { className: "suppressed" }, " (suppressed)")] : []),
+    );
+}
+
+function scoreLevel(score: number): string {
+    if (score >= 15) {
+        return "score-high";
+    }
+
+    if (score >= 5) {
+        return "score-medium";
+    }
+
+    return "score-low";
 }
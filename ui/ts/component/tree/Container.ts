@@ -1,6 +1,13 @@
 import { CopyText } from "../controls/CopyText.js";
 import { ToggleableBox } from "../box/ToggleableBox.js";
+import { KindIcon } from "../icon/KindIcon.js";
 import { Score } from "../text/Score.js";
+import { Cyclomatic } from "../text/Cyclomatic.js";
+import { Halstead } from "../text/Halstead.js";
+import { Lines } from "../text/Lines.js";
+import { MaxDepth } from "../text/MaxDepth.js";
+import { ExceededThresholds } from "../text/ExceededThresholds.js";
+import { Increments } from "../text/Increments.js";
 import { showInTree, StickyTitle } from "./StickyTitle.js";
 import { SortedContainer } from "../../domain/sortedOutput.js";
 
@@ -15,15 +22,23 @@ export class Container {
         this.depth = complexity.depth;
 
         this.title = new StickyTitle([
+            KindIcon(complexity.kind),
             complexity.name,
-            CopyText(`${complexity.path}:${complexity.line}:${complexity.column}`),
+            CopyText(`${complexity.path}:${complexity.line}:${complexity.column}`, "copy location"),
+            CopyText(complexity.qualifiedName, "copy qualified name"),
         ],
             complexity.depth
         );
 
         this.box = new ToggleableBox([
             this.title.dom,
-            Score(complexity.score),
+            Score(complexity.score, complexity.selfScore, complexity.suppressed),
+            ...(complexity.exceededThresholds?.length ? [ExceededThresholds(complexity.exceededThresholds)] : []),
+            Lines(complexity.line, complexity),
+            MaxDepth(complexity.maxDepth),
+            ...(complexity.cyclomatic !== undefined ? [Cyclomatic(complexity.cyclomatic)] : []),
+            ...(complexity.halstead !== undefined ? [Halstead(complexity.halstead)] : []),
+            ...(complexity.increments?.length ? [Increments(complexity.increments)] : []),
         ],
             false,
             () => this.scrollIntoView(),
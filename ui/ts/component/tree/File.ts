@@ -2,7 +2,13 @@ import { Container } from "./Container.js";
 import { showInTree, StickyTitle } from "./StickyTitle.js";
 import { ToggleableBox } from "../box/ToggleableBox.js";
 import { Score } from "../text/Score.js";
+import { Cyclomatic } from "../text/Cyclomatic.js";
+import { Lines } from "../text/Lines.js";
+import { MaxDepth } from "../text/MaxDepth.js";
+import { ExceededThresholds } from "../text/ExceededThresholds.js";
+import { Increments } from "../text/Increments.js";
 import { CopyText } from "../controls/CopyText.js";
+import { SyntaxWarning } from "../icon/SyntaxWarning.js";
 import { concatFilePath } from "../../domain/path.js";
 import { SortedFile } from "../../domain/sortedOutput.js";
 
@@ -20,6 +26,7 @@ export class File {
 
         this.title = new StickyTitle([
             file.name,
+            ...(file.syntaxDiagnostics?.length ? [SyntaxWarning(file.syntaxDiagnostics)] : []),
             CopyText(fullPath),
         ],
             file.depth
@@ -27,7 +34,12 @@ export class File {
 
         this.box = new ToggleableBox([
             this.title.dom,
-            Score(file.score),
+            Score(file.score, file.selfScore),
+            ...(file.exceededThresholds?.length ? [ExceededThresholds(file.exceededThresholds)] : []),
+            Lines(1, file),
+            MaxDepth(file.maxDepth),
+            ...(file.cyclomatic !== undefined ? [Cyclomatic(file.cyclomatic)] : []),
+            ...(file.increments?.length ? [Increments(file.increments)] : []),
         ],
             false,
             () => this.scrollIntoView(),
@@ -20,6 +20,16 @@ export class Tree {
 
     constructor() {
         this.dom = element("div");
+        this.setColourBySelfScore(false);
+    }
+
+    /**
+     * Choose whether the self scores or the total scores in the tree
+     * are coloured by how high they are.
+     */
+    setColourBySelfScore(bySelfScore: boolean) {
+        this.dom.classList.toggle("tree-colour-by-score", !bySelfScore);
+        this.dom.classList.toggle("tree-colour-by-self-score", bySelfScore);
     }
 
     // make
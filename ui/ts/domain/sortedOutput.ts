@@ -1,22 +1,37 @@
-import { ContainerOutput, FileOutput, FolderOutput, FunctionNodeInfo, ProgramOutput } from "../../../shared/types.js";
+import { ContainerKind, ContainerOutput, FileOutput, FolderOutput, FunctionNodeInfo, Halstead, Increment, MaxDepth, ProgramOutput, SourceRange, SyntaxDiagnostic, ThresholdName } from "../../../shared/types.js";
 import { Unique, UniqueId } from "../framework.js";
 import { Sorter } from "../util.js";
 import { isFileOutput } from "./output.js";
 import { concatFilePath } from "./path.js";
 
-export interface SortedContainer extends FunctionNodeInfo, Unique {
+export interface SortedContainer extends FunctionNodeInfo, SourceRange, Unique {
     name: string;
+    kind: ContainerKind;
+    qualifiedName: string;
     path: string;
     depth: number;
     score: number;
+    selfScore: number;
+    maxDepth: MaxDepth;
+    cyclomatic?: number;
+    halstead?: Halstead;
+    increments?: Increment[];
+    suppressed?: boolean;
+    exceededThresholds?: ThresholdName[];
     inner: SortedContainer[];
 }
 
-export interface SortedFile extends Unique {
+export interface SortedFile extends SourceRange, Unique {
     name: string;
     path: string;
     depth: number;
     score: number;
+    selfScore: number;
+    maxDepth: MaxDepth;
+    cyclomatic?: number;
+    increments?: Increment[];
+    exceededThresholds?: ThresholdName[];
+    syntaxDiagnostics?: SyntaxDiagnostic[];
     inner: SortedContainer[];
 }
 
@@ -62,15 +77,27 @@ function compareOutputsByName(left: SortedAnything, right: SortedAnything): numb
             : 0;
 }
 
-function compareSortedOutputComplexity(left: SortedAnything, right: SortedAnything,): number {
+function compareSortedOutputComplexity(left: SortedAnything, right: SortedAnything): number {
+    return compareSortedOutputScore(left, right, file => file.score);
+}
+
+function compareSortedOutputSelfComplexity(left: SortedAnything, right: SortedAnything): number {
+    return compareSortedOutputScore(left, right, file => file.selfScore);
+}
+
+function compareSortedOutputScore(
+    left: SortedAnything,
+    right: SortedAnything,
+    getScore: (output: SortedFile | SortedContainer) => number,
+): number {
     const leftHasScore = !isSortedFolderOutput(left);
     const rightHasScore = !isSortedFolderOutput(right);
 
     if (leftHasScore && rightHasScore) {
         // If the typeof statements were directly in the if condition,
         // the casting would not be required by TypeScript.
-        const leftScore = (left as SortedFile).score;
-        const rightScore = (right as SortedFile).score;
+        const leftScore = getScore(left as SortedFile);
+        const rightScore = getScore(right as SortedFile);
 
         return rightScore - leftScore;
     }
@@ -125,10 +152,23 @@ function convertToSortedContainer(path: string, depth: number, containerOutput:
         id: UniqueId.next(),
         column: containerOutput.column,
         line: containerOutput.line,
+        endColumn: containerOutput.endColumn,
+        endLine: containerOutput.endLine,
+        physicalLines: containerOutput.physicalLines,
+        logicalLines: containerOutput.logicalLines,
         name: containerOutput.name,
+        kind: containerOutput.kind,
+        qualifiedName: containerOutput.qualifiedName,
         path,
         depth,
         score: containerOutput.score,
+        selfScore: containerOutput.selfScore,
+        maxDepth: containerOutput.maxDepth,
+        cyclomatic: containerOutput.cyclomatic,
+        halstead: containerOutput.halstead,
+        increments: containerOutput.increments,
+        suppressed: containerOutput.suppressed,
+        exceededThresholds: containerOutput.exceededThresholds,
         inner: containerOutput.inner.map(container => convertToSortedContainer(path, depth + 1, container)),
     };
 }
@@ -148,6 +188,16 @@ function convertToSortedFile(path: string, name: string, depth: number, fileOutp
         path,
         depth,
         score: fileOutput.score,
+        selfScore: fileOutput.selfScore,
+        maxDepth: fileOutput.maxDepth,
+        exceededThresholds: fileOutput.exceededThresholds,
+        endColumn: fileOutput.endColumn,
+        endLine: fileOutput.endLine,
+        physicalLines: fileOutput.physicalLines,
+        logicalLines: fileOutput.logicalLines,
+        cyclomatic: fileOutput.cyclomatic,
+        increments: fileOutput.increments,
+        syntaxDiagnostics: fileOutput.syntaxDiagnostics,
         inner,
     };
 }
@@ -202,6 +252,10 @@ export function sortProgramByComplexity(program: SortedProgram) {
     sortProgram(program, compareSortedOutputComplexity);
 }
 
+export function sortProgramBySelfComplexity(program: SortedProgram) {
+    sortProgram(program, compareSortedOutputSelfComplexity);
+}
+
 export function sortProgramByName(program: SortedProgram) {
     sortProgram(program, compareOutputsByName);
 }